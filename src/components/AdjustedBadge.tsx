@@ -0,0 +1,32 @@
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { PencilLine } from 'lucide-react';
+import { BreakAdjustment } from '@/lib/break-records';
+
+interface AdjustedBadgeProps {
+  adjustment?: BreakAdjustment;
+}
+
+// Flags a break whose times were corrected by hand, with who did it and why
+const AdjustedBadge = ({ adjustment }: AdjustedBadgeProps) => {
+  if (!adjustment) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className="flex items-center gap-1 text-indigo-700 border-indigo-200 bg-indigo-50 cursor-default">
+          <PencilLine className="h-3 w-3" />
+          Adjusted
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">
+        <p>{adjustment.reason}</p>
+        <p className="text-muted-foreground">
+          {adjustment.adjustedBy} · {adjustment.adjustedAt.toLocaleString('en-US')}
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default AdjustedBadge;
@@ -0,0 +1,62 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertCircle, AlertTriangle, BellRing, Check } from 'lucide-react';
+import { BreakAlert } from '@/lib/break-alerts';
+import { formatTime } from '@/lib/break-records';
+
+interface AlertsPanelProps {
+  alerts: BreakAlert[];
+  onAcknowledge: (id: string) => void;
+  onAcknowledgeAll: () => void;
+}
+
+const AlertsPanel = ({ alerts, onAcknowledge, onAcknowledgeAll }: AlertsPanelProps) => {
+  if (alerts.length === 0) return null;
+
+  return (
+    <Card className="mb-8 shadow-lg border-orange-200 bg-orange-50/50">
+      <CardHeader>
+        <CardTitle className="text-slate-700 flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <BellRing className="h-5 w-5 text-orange-600" />
+            Unacknowledged Alerts ({alerts.length})
+          </span>
+          <Button onClick={onAcknowledgeAll} variant="outline" size="sm">
+            Acknowledge All
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2">
+          {alerts.map(alert => (
+            <li
+              key={alert.id}
+              className={`flex items-center justify-between gap-4 rounded-md border px-3 py-2 text-sm ${
+                alert.level === 'overtime'
+                  ? 'border-red-200 bg-red-50 text-red-800'
+                  : 'border-orange-200 bg-white text-orange-800'
+              }`}
+            >
+              <span className="flex items-center gap-2">
+                {alert.level === 'overtime'
+                  ? <AlertCircle className="h-4 w-4" />
+                  : <AlertTriangle className="h-4 w-4" />}
+                <span>
+                  <span className="font-semibold">{alert.associateName}</span>'s {alert.breakTypeName.toLowerCase()} passed{' '}
+                  {alert.thresholdMinutes} minutes{alert.level === 'overtime' && ' (overtime)'}
+                </span>
+                <span className="text-slate-500">at {formatTime(new Date(alert.raisedAt))}</span>
+              </span>
+              <Button onClick={() => onAcknowledge(alert.id)} variant="ghost" size="sm" className="flex items-center gap-1">
+                <Check className="h-4 w-4" />
+                Acknowledge
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AlertsPanel;
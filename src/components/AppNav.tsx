@@ -0,0 +1,51 @@
+import { NavLink } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { BarChart3, LogOut, ScrollText, Settings, Timer, Users } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { getProfileName, hasRole, USER_ROLE_LABELS, UserRole } from '@/lib/user-roles';
+import { cn } from '@/lib/utils';
+
+const links: { to: string; label: string; icon: typeof Timer; role?: UserRole }[] = [
+  { to: '/', label: 'Tracker', icon: Timer },
+  { to: '/associates', label: 'Roster', icon: Users },
+  { to: '/analytics', label: 'Analytics', icon: BarChart3 },
+  { to: '/audit', label: 'Audit Log', icon: ScrollText, role: 'supervisor' },
+  { to: '/settings', label: 'Settings', icon: Settings },
+];
+
+const AppNav = () => {
+  const { profile, signOut } = useAuth();
+
+  return (
+    <nav className="flex items-center justify-center gap-1 flex-wrap">
+      {links.filter(({ role }) => !role || hasRole(profile, role)).map(({ to, label, icon: Icon }) => (
+        <NavLink
+          key={to}
+          to={to}
+          end={to === '/'}
+          className={({ isActive }) => cn(
+            'flex items-center gap-2 rounded-md px-3 py-1.5 text-sm font-medium transition-colors',
+            isActive ? 'bg-blue-100 text-blue-800' : 'text-slate-600 hover:bg-slate-100'
+          )}
+        >
+          <Icon className="h-4 w-4" />
+          {label}
+        </NavLink>
+      ))}
+      {profile && (
+        <div className="flex items-center gap-2 ml-2 pl-3 border-l border-slate-200 text-sm text-slate-600">
+          <span>{getProfileName(profile)}</span>
+          <Badge variant="outline" className="text-blue-700 border-blue-200 bg-blue-50">
+            {USER_ROLE_LABELS[profile.role]}
+          </Badge>
+          <Button onClick={() => void signOut()} variant="ghost" size="sm" className="text-slate-600" aria-label="Sign out">
+            <LogOut className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </nav>
+  );
+};
+
+export default AppNav;
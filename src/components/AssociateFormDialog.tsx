@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Associate } from '@/lib/roster';
+
+interface AssociateFormDialogProps {
+  open: boolean;
+  associate: Associate | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (associate: Associate) => void;
+}
+
+const AssociateFormDialog = ({ open, associate, onOpenChange, onSubmit }: AssociateFormDialogProps) => {
+  const [draft, setDraft] = useState<Associate | null>(associate);
+
+  useEffect(() => {
+    setDraft(associate);
+  }, [associate]);
+
+  if (!draft) return null;
+
+  const update = (changes: Partial<Associate>) => {
+    setDraft(prev => prev ? { ...prev, ...changes } : prev);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(draft);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{associate?.displayName ? `Edit ${associate.displayName}` : 'Add Associate'}</DialogTitle>
+            <DialogDescription>
+              Break records refer to this associate by ID, so renaming keeps their history together.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 py-4">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="displayName">Display name</Label>
+              <Input
+                id="displayName"
+                value={draft.displayName}
+                onChange={(e) => update({ displayName: e.target.value })}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="badgeNumber">Badge number</Label>
+              <Input
+                id="badgeNumber"
+                value={draft.badgeNumber}
+                onChange={(e) => update({ badgeNumber: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="team">Team</Label>
+              <Input
+                id="team"
+                value={draft.team}
+                onChange={(e) => update({ team: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shift">Shift</Label>
+              <Input
+                id="shift"
+                placeholder="e.g. Days"
+                value={draft.shift}
+                onChange={(e) => update({ shift: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center gap-3 pt-6">
+              <Switch
+                id="active"
+                checked={draft.active}
+                onCheckedChange={(active) => update({ active })}
+              />
+              <Label htmlFor="active">Active</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-blue-600 hover:bg-blue-700">
+              Save Associate
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AssociateFormDialog;
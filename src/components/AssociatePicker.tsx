@@ -0,0 +1,93 @@
+import { RefObject, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Associate } from '@/lib/roster';
+
+interface AssociatePickerProps {
+  associates: Associate[];
+  value?: Associate;
+  onSelect: (associate: Associate) => void;
+  // Associates currently on a break are flagged in the list
+  activeAssociateIds?: Set<string>;
+  // Element to focus after a selection, so Enter can act on it straight away
+  focusAfterSelectRef?: RefObject<HTMLElement>;
+}
+
+const AssociatePicker = ({ associates, value, onSelect, activeAssociateIds, focusAfterSelectRef }: AssociatePickerProps) => {
+  const [open, setOpen] = useState(false);
+  const selectedRef = useRef(false);
+  const activeRoster = associates.filter(associate => associate.active);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          {value ? (
+            <span className="truncate">
+              {value.displayName}
+              {value.badgeNumber && <span className="text-slate-500"> · #{value.badgeNumber}</span>}
+            </span>
+          ) : (
+            <span className="text-muted-foreground">Select associate</span>
+          )}
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-80 p-0"
+        align="start"
+        onCloseAutoFocus={(e) => {
+          if (selectedRef.current && focusAfterSelectRef?.current) {
+            e.preventDefault();
+            focusAfterSelectRef.current.focus();
+          }
+          selectedRef.current = false;
+        }}
+      >
+        <Command>
+          <CommandInput placeholder="Search name, badge or team..." />
+          <CommandList>
+            <CommandEmpty>No associate found.</CommandEmpty>
+            <CommandGroup>
+              {activeRoster.map(associate => (
+                <CommandItem
+                  key={associate.id}
+                  value={associate.id}
+                  keywords={[associate.displayName, associate.badgeNumber, associate.team].filter(Boolean)}
+                  onSelect={() => {
+                    selectedRef.current = true;
+                    onSelect(associate);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn('mr-2 h-4 w-4', value?.id === associate.id ? 'opacity-100' : 'opacity-0')} />
+                  <div className="flex flex-col">
+                    <span>{associate.displayName}</span>
+                    <span className="text-xs text-slate-500">
+                      {[associate.badgeNumber && `#${associate.badgeNumber}`, associate.team, associate.shift]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </span>
+                  </div>
+                  {activeAssociateIds?.has(associate.id) && (
+                    <span className="ml-auto text-xs font-medium text-blue-600">On break</span>
+                  )}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default AssociatePicker;
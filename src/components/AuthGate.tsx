@@ -0,0 +1,70 @@
+import { ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { LogOut, RotateCcw, ShieldAlert } from 'lucide-react';
+import { AuthContext, AuthState, useAuthSession } from '@/hooks/use-auth';
+import SignIn from '@/pages/SignIn';
+
+interface AccessProblemProps {
+  auth: AuthState;
+}
+
+const AccessProblem = ({ auth }: AccessProblemProps) => {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-slate-50 p-4 flex items-center justify-center">
+      <Card className="max-w-md shadow-lg border-slate-200">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-slate-800">
+            <ShieldAlert className="h-5 w-5 text-orange-600" />
+            {auth.status === 'noRole' ? 'No access yet' : 'Could not check your access'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-slate-700">
+            {auth.status === 'noRole'
+              ? `${auth.session?.user.email ?? 'This account'} has not been given a role. Ask an administrator to add you as a lead, supervisor or admin.`
+              : 'The server could not be reached to load your role. Check the connection and try again.'}
+          </p>
+          <div className="flex gap-2 flex-wrap">
+            {auth.status === 'unavailable' && (
+              <Button onClick={() => window.location.reload()} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700">
+                <RotateCcw className="h-4 w-4" />
+                Try Again
+              </Button>
+            )}
+            <Button onClick={() => void auth.signOut()} variant="outline" className="flex items-center gap-2">
+              <LogOut className="h-4 w-4" />
+              Sign Out
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+/**
+ * Everything below requires a signed-in user with a role. The database enforces the same rules
+ * with row-level security; this only keeps signed-out visitors away from the app.
+ */
+const AuthGate = ({ children }: { children: ReactNode }) => {
+  const auth = useAuthSession();
+
+  switch (auth.status) {
+    case 'loading':
+      return (
+        <div className="min-h-screen flex items-center justify-center text-slate-500">
+          Checking sign-in...
+        </div>
+      );
+    case 'signedOut':
+      return <SignIn />;
+    case 'noRole':
+    case 'unavailable':
+      return <AccessProblem auth={auth} />;
+    case 'signedIn':
+      return <AuthContext.Provider value={auth}>{children}</AuthContext.Provider>;
+  }
+};
+
+export default AuthGate;
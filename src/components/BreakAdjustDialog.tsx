@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertCircle } from 'lucide-react';
+import { applyBreakAdjustment, BreakAdjustmentInput, validateBreakAdjustment } from '@/lib/break-adjustment';
+import { BreakPolicy, getBreakTypePolicy } from '@/lib/break-policy';
+import { BreakRecord, formatDuration, getRecordDuration } from '@/lib/break-records';
+
+const DATE_TIME_FORMAT = "yyyy-MM-dd'T'HH:mm:ss";
+
+// Mount with a key per record so the form starts from that record's times
+interface BreakAdjustDialogProps {
+  // The break being corrected; null closes the dialog
+  record: BreakRecord | null;
+  records: BreakRecord[];
+  policy: BreakPolicy;
+  // Recorded as the person who made the correction
+  actor: string;
+  onOpenChange: (open: boolean) => void;
+  onSave: (original: BreakRecord, adjusted: BreakRecord) => void;
+}
+
+const toInputValue = (date?: Date) => date ? format(date, DATE_TIME_FORMAT) : '';
+
+const BreakAdjustDialog = ({ record, records, policy, actor, onOpenChange, onSave }: BreakAdjustDialogProps) => {
+  const [startTime, setStartTime] = useState(toInputValue(record?.startTime));
+  const [endTime, setEndTime] = useState(toInputValue(record?.endTime));
+  const [reason, setReason] = useState('');
+
+  if (!record) return null;
+
+  const now = new Date();
+  const input: BreakAdjustmentInput = {
+    startTime: new Date(startTime),
+    endTime: endTime ? new Date(endTime) : undefined,
+    reason,
+  };
+  const error = validateBreakAdjustment(record, input, records, now);
+  const adjusted = applyBreakAdjustment(record, input, policy, actor, now);
+  const duration = error ? null : getRecordDuration(adjusted);
+  const timesChanged = !error && (
+    adjusted.startTime.getTime() !== record.startTime.getTime() ||
+    adjusted.endTime?.getTime() !== record.endTime?.getTime()
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (error || !timesChanged) return;
+    onSave(record, adjusted);
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Correct Break Times</DialogTitle>
+            <DialogDescription>
+              {record.name} · {getBreakTypePolicy(policy, record.breakType).name}. The correction and its reason are
+              kept in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="adjustStart">Start</Label>
+              <Input
+                id="adjustStart"
+                type="datetime-local"
+                step={1}
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="adjustEnd">End</Label>
+              <Input
+                id="adjustEnd"
+                type="datetime-local"
+                step={1}
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="adjustReason">Reason for the correction</Label>
+              <Textarea
+                id="adjustReason"
+                placeholder="e.g. Associate forgot to scan back in at 12:30"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="sm:col-span-2 text-sm">
+              {error ? (
+                <p className="flex items-center gap-2 text-red-600">
+                  <AlertCircle className="h-4 w-4" />
+                  {error}
+                </p>
+              ) : (
+                <p className="text-slate-600">
+                  {duration === null
+                    ? `Still ${adjusted.status === 'active' ? 'on break' : 'unclosed'}`
+                    : `Duration ${formatDuration(duration)} · ${adjusted.status === 'overtime' ? 'Overtime' : 'Completed'}`}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={!!error || !timesChanged}>
+              Save Correction
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BreakAdjustDialog;
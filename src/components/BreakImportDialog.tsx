@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import {
+  BreakImportAction,
+  BreakImportRow,
+  BreakWorkbook,
+  needsFallbackDate,
+  planBreakImport,
+  readBreakWorkbook,
+} from '@/lib/break-import';
+import { BreakPolicy } from '@/lib/break-policy';
+import { BreakRecord, formatDate, formatTime } from '@/lib/break-records';
+import { Associate } from '@/lib/roster';
+import { getShiftCloseTimes } from '@/lib/shift-rollover';
+
+type Step = 'upload' | 'preview' | 'done';
+
+interface BreakImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  records: BreakRecord[];
+  policy: BreakPolicy;
+  associates: Associate[];
+  onImport: (rows: BreakImportRow[]) => void;
+}
+
+const actionStyles: Record<BreakImportAction, string> = {
+  add: 'bg-green-100 text-green-800 border-green-200',
+  update: 'bg-blue-100 text-blue-800 border-blue-200',
+  skip: 'bg-slate-100 text-slate-600 border-slate-200',
+  error: 'bg-red-100 text-red-800 border-red-200',
+};
+
+const BreakImportDialog = ({ open, onOpenChange, records, policy, associates, onImport }: BreakImportDialogProps) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [workbook, setWorkbook] = useState<BreakWorkbook | null>(null);
+  const [fallbackDate, setFallbackDate] = useState('');
+  const [summary, setSummary] = useState<Record<BreakImportAction, number> | null>(null);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setWorkbook(null);
+    setFallbackDate('');
+    setSummary(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    try {
+      const parsed = await readBreakWorkbook(file);
+      if (parsed.rows.length === 0) {
+        toast.error('No rows found', { description: 'Choose a break times file exported from the tracker.' });
+        return;
+      }
+      setFileName(file.name);
+      setWorkbook(parsed);
+      setStep('preview');
+    } catch (error) {
+      console.error('Error reading break times file:', error);
+      toast.error('Could not read that file', { description: 'Use an .xlsx file exported from the tracker.' });
+    }
+  };
+
+  const now = new Date();
+  const plan = workbook
+    ? planBreakImport(workbook, {
+      policy,
+      associates,
+      existing: records,
+      fallbackDate: fallbackDate ? new Date(`${fallbackDate}T00:00:00`) : null,
+      lastShiftClose: getShiftCloseTimes(policy.shiftCloseTime, now).lastClose,
+      now,
+    })
+    : [];
+
+  const countByAction = (action: BreakImportAction) => plan.filter(row => row.action === action).length;
+
+  const commitImport = () => {
+    onImport(plan.filter(row => row.action === 'add' || row.action === 'update'));
+    const result = {
+      add: countByAction('add'),
+      update: countByAction('update'),
+      skip: countByAction('skip'),
+      error: countByAction('error'),
+    };
+    setSummary(result);
+    setStep('done');
+    toast.success('Break records imported', {
+      description: `${result.add} added, ${result.update} updated, ${result.skip + result.error} skipped`,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Break Records</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Choose a break_times .xlsx file exported from the tracker.'}
+            {step === 'preview' && `Review what importing ${fileName} will change. Breaks already in the tracker are never overwritten.`}
+            {step === 'done' && 'The import is complete.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-2 py-4">
+            <Label htmlFor="breakTimesFile">Break times file</Label>
+            <Input
+              id="breakTimesFile"
+              type="file"
+              accept=".xlsx,.xls"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+        )}
+
+        {step === 'preview' && workbook && (
+          <div className="space-y-3">
+            {needsFallbackDate(workbook) && (
+              <div className="space-y-2 max-w-xs">
+                <Label htmlFor="breakDate">Day of these breaks</Label>
+                <Input
+                  id="breakDate"
+                  type="date"
+                  value={fallbackDate}
+                  max={format(now, 'yyyy-MM-dd')}
+                  onChange={(e) => setFallbackDate(e.target.value)}
+                />
+                <p className="text-xs text-slate-500">The file name and sheet do not say which day the breaks were on.</p>
+              </div>
+            )}
+            <div className="flex gap-2 flex-wrap text-sm">
+              <Badge variant="outline" className={actionStyles.add}>{countByAction('add')} to add</Badge>
+              <Badge variant="outline" className={actionStyles.update}>{countByAction('update')} to update</Badge>
+              <Badge variant="outline" className={actionStyles.skip}>{countByAction('skip')} to skip</Badge>
+              {countByAction('error') > 0 && (
+                <Badge variant="outline" className={actionStyles.error}>{countByAction('error')} not readable</Badge>
+              )}
+            </div>
+            <ScrollArea className="h-80 rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-blue-50">
+                    <TableHead>Row</TableHead>
+                    <TableHead>Associate</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Start</TableHead>
+                    <TableHead>End</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.map(row => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell className="text-slate-500">{row.rowNumber}</TableCell>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      <TableCell>{row.startTime ? formatDate(row.startTime) : ''}</TableCell>
+                      <TableCell>{row.startTime ? formatTime(row.startTime) : ''}</TableCell>
+                      <TableCell>{row.endTime ? formatTime(row.endTime) : ''}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={actionStyles[row.action]}>{row.note}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </div>
+        )}
+
+        {step === 'done' && summary && (
+          <div className="grid grid-cols-3 gap-4 py-4 text-center">
+            <div>
+              <p className="text-2xl font-bold text-green-700">{summary.add}</p>
+              <p className="text-sm text-slate-600">Added</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-blue-700">{summary.update}</p>
+              <p className="text-sm text-slate-600">Updated</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-slate-600">{summary.skip + summary.error}</p>
+              <p className="text-sm text-slate-600">Skipped</p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={reset}>Choose Another File</Button>
+              <Button
+                onClick={commitImport}
+                disabled={countByAction('add') + countByAction('update') === 0}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                Import
+              </Button>
+            </>
+          )}
+          {step === 'done' && (
+            <Button onClick={() => handleOpenChange(false)}>Close</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BreakImportDialog;
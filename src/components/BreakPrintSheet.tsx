@@ -0,0 +1,66 @@
+import { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+
+export interface PrintJob {
+  title: string;
+  subtitle: string;
+  headers: string[];
+  rows: string[][];
+  summary: string;
+}
+
+interface BreakPrintSheetProps {
+  job: PrintJob;
+  onDone: () => void;
+}
+
+/**
+ * Print-only layout for a break report. The rest of the page is hidden with `print:hidden`
+ * while this is mounted, so the browser's print dialog (or "Save as PDF") gets a clean sheet.
+ */
+const BreakPrintSheet = ({ job, onDone }: BreakPrintSheetProps) => {
+  useEffect(() => {
+    window.addEventListener('afterprint', onDone);
+    // Let the sheet render before the print dialog takes over the page
+    const timer = setTimeout(() => window.print(), 100);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('afterprint', onDone);
+    };
+  }, [onDone]);
+
+  return createPortal(
+    <div className="hidden print:block text-black text-[11px] leading-tight">
+      <h1 className="text-lg font-bold">{job.title}</h1>
+      <p className="mb-3">{job.subtitle}</p>
+      <table className="w-full border-collapse">
+        <thead>
+          <tr>
+            {job.headers.map(header => (
+              <th key={header} className="border border-black px-1.5 py-1 text-left font-semibold bg-slate-100">
+                {header}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {job.rows.map((row, rowIndex) => (
+            <tr key={rowIndex} className="break-inside-avoid">
+              {row.map((cell, cellIndex) => (
+                <td key={cellIndex} className="border border-black px-1.5 py-1 align-top">{cell}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-3">{job.summary}</p>
+      <div className="mt-12 grid grid-cols-2 gap-12 break-inside-avoid">
+        <div className="border-t border-black pt-1">Floor manager signature</div>
+        <div className="border-t border-black pt-1">Date</div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default BreakPrintSheet;
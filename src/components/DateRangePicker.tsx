@@ -0,0 +1,62 @@
+import { DateRange } from 'react-day-picker';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarDays } from 'lucide-react';
+import { DayRange, formatRangeLabel } from '@/lib/date-range';
+
+interface DateRangePickerProps {
+  // null shows the current shift's board, or everything on pages without one
+  value: DayRange | null;
+  onChange: (range: DayRange | null) => void;
+  // Offer a button to go back to the current shift
+  clearable?: boolean;
+  // What null means on this page
+  emptyLabel?: string;
+  clearLabel?: string;
+}
+
+const DateRangePicker = ({
+  value,
+  onChange,
+  clearable = true,
+  emptyLabel = 'Current shift',
+  clearLabel = 'Current Shift',
+}: DateRangePickerProps) => {
+  const handleSelect = (range?: DateRange) => {
+    // Clicking the selected day again clears the selection; keep showing that day instead
+    if (!range?.from) return;
+    onChange({ from: range.from, to: range.to ?? range.from });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="flex items-center gap-2">
+            <CalendarDays className="h-4 w-4" />
+            {value ? formatRangeLabel(value) : emptyLabel}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="end">
+          <Calendar
+            mode="range"
+            selected={value ? { from: value.from, to: value.to } : undefined}
+            onSelect={handleSelect}
+            defaultMonth={value?.from}
+            disabled={{ after: new Date() }}
+            numberOfMonths={2}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      {value && clearable && (
+        <Button onClick={() => onChange(null)} variant="ghost" size="sm" className="text-slate-600">
+          {clearLabel}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default DateRangePicker;
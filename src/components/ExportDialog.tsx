@@ -0,0 +1,272 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { PrintJob } from '@/components/BreakPrintSheet';
+import DateRangePicker from '@/components/DateRangePicker';
+import { NO_TEAM } from '@/lib/break-analytics';
+import {
+  BREAK_STATUSES,
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  ExportFormat,
+  ExportOptions,
+  downloadTextFile,
+  filterRecordsForExport,
+  toCsv,
+  toJson,
+  toPrintRows,
+} from '@/lib/break-export';
+import { BreakPolicy } from '@/lib/break-policy';
+import { BreakRecord, BreakStatus, formatTime } from '@/lib/break-records';
+import { downloadBreakReport } from '@/lib/break-report';
+import { DayRange, formatRangeForFileName, formatRangeLabel } from '@/lib/date-range';
+import { Associate } from '@/lib/roster';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  records: BreakRecord[];
+  policy: BreakPolicy;
+  associates: Associate[];
+  // The range shown on the tracker when the dialog opens; null is the current shift
+  initialRange: DayRange | null;
+  onPrint: (job: PrintJob) => void;
+}
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'xlsx', label: 'Excel', description: 'Summary, per-associate and exceptions sheets' },
+  { value: 'csv', label: 'CSV', description: 'For payroll and other spreadsheet imports' },
+  { value: 'json', label: 'JSON', description: 'For reporting and BI tools' },
+  { value: 'print', label: 'Print / PDF', description: 'A sheet to print or save as PDF and sign' },
+];
+
+const ALL_TEAMS = 'all';
+
+const toggleValue = <T,>(values: T[], value: T, checked: boolean) => {
+  return checked ? [...values, value] : values.filter(existing => existing !== value);
+};
+
+const ExportDialog = ({
+  open,
+  onOpenChange,
+  records,
+  policy,
+  associates,
+  initialRange,
+  onPrint,
+}: ExportDialogProps) => {
+  const [options, setOptions] = useState<ExportOptions>({
+    format: 'xlsx',
+    range: initialRange,
+    columns: DEFAULT_EXPORT_COLUMNS,
+    statuses: BREAK_STATUSES,
+    breakTypeIds: policy.breakTypes.map(type => type.id),
+    team: '',
+  });
+
+  // Start from what the tracker is showing each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setOptions(prev => ({ ...prev, range: initialRange, breakTypeIds: policy.breakTypes.map(type => type.id) }));
+    }
+  }, [open, initialRange, policy.breakTypes]);
+
+  const update = (changes: Partial<ExportOptions>) => {
+    setOptions(prev => ({ ...prev, ...changes }));
+  };
+
+  const now = new Date();
+  const context = { policy, associates, now };
+  const selectedRecords = filterRecordsForExport(records, options, context);
+  const teams = [...new Set(associates.map(associate => associate.team.trim() || NO_TEAM))].sort();
+  const rangeLabel = options.range ? formatRangeLabel(options.range, now) : 'Current shift';
+  const baseFileName = `break_times_${formatRangeForFileName(options.range ?? { from: now, to: now })}`;
+
+  const handleExport = () => {
+    if (selectedRecords.length === 0) {
+      toast.error('No records match these filters');
+      return;
+    }
+    if (options.format !== 'xlsx' && options.columns.length === 0) {
+      toast.error('Choose at least one column');
+      return;
+    }
+
+    switch (options.format) {
+      case 'xlsx': {
+        const fileName = `${baseFileName}.xlsx`;
+        downloadBreakReport(selectedRecords, policy, associates, fileName);
+        toast.success('Excel file downloaded!', { description: fileName });
+        break;
+      }
+      case 'csv': {
+        const fileName = `${baseFileName}.csv`;
+        downloadTextFile(toCsv(selectedRecords, options.columns, context), fileName, 'text/csv;charset=utf-8');
+        toast.success('CSV file downloaded!', { description: fileName });
+        break;
+      }
+      case 'json': {
+        const fileName = `${baseFileName}.json`;
+        downloadTextFile(toJson(selectedRecords, options.columns, context), fileName, 'application/json');
+        toast.success('JSON file downloaded!', { description: fileName });
+        break;
+      }
+      case 'print': {
+        const overtimeCount = selectedRecords.filter(record => record.status === 'overtime').length;
+        const unclosedCount = selectedRecords.filter(record => record.status === 'unclosed').length;
+        onPrint({
+          title: `Break Time Report${policy.siteName ? ` · ${policy.siteName}` : ''}`,
+          subtitle: `${rangeLabel} · Printed ${now.toLocaleDateString('en-US')} ${formatTime(now)}`,
+          ...toPrintRows(selectedRecords, options.columns, context),
+          summary: `${selectedRecords.length} breaks, ${overtimeCount} overtime, ${unclosedCount} unclosed.`,
+        });
+        break;
+      }
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export Break Records</DialogTitle>
+          <DialogDescription>Choose a format, the records to include and the columns to show.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup
+              value={options.format}
+              onValueChange={(format) => update({ format: format as ExportFormat })}
+              className="grid grid-cols-1 sm:grid-cols-2 gap-2"
+            >
+              {FORMAT_OPTIONS.map(option => (
+                <label
+                  key={option.value}
+                  htmlFor={`format-${option.value}`}
+                  className="flex items-start gap-2 rounded-md border border-slate-200 p-3 cursor-pointer"
+                >
+                  <RadioGroupItem id={`format-${option.value}`} value={option.value} className="mt-0.5" />
+                  <span>
+                    <span className="block text-sm font-medium text-slate-800">{option.label}</span>
+                    <span className="block text-xs text-slate-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="flex gap-6 flex-wrap">
+            <div className="space-y-2">
+              <Label>Date range</Label>
+              <DateRangePicker value={options.range} onChange={(range) => update({ range })} />
+            </div>
+            <div className="space-y-2 w-48">
+              <Label>Team</Label>
+              <Select
+                value={options.team || ALL_TEAMS}
+                onValueChange={(team) => update({ team: team === ALL_TEAMS ? '' : team })}
+              >
+                <SelectTrigger aria-label="Team">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TEAMS}>All teams</SelectItem>
+                  {teams.map(team => (
+                    <SelectItem key={team} value={team}>{team}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label>Status</Label>
+              {BREAK_STATUSES.map(status => (
+                <div key={status} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`status-${status}`}
+                    checked={options.statuses.includes(status)}
+                    onCheckedChange={(checked) => update({
+                      statuses: toggleValue<BreakStatus>(options.statuses, status, checked === true),
+                    })}
+                  />
+                  <Label htmlFor={`status-${status}`} className="font-normal capitalize">{status}</Label>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label>Break types</Label>
+              {policy.breakTypes.map(type => (
+                <div key={type.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`type-${type.id}`}
+                    checked={options.breakTypeIds.includes(type.id)}
+                    onCheckedChange={(checked) => update({
+                      breakTypeIds: toggleValue(options.breakTypeIds, type.id, checked === true),
+                    })}
+                  />
+                  <Label htmlFor={`type-${type.id}`} className="font-normal">
+                    {type.name}{type.retired && ' (retired)'}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            {options.format === 'xlsx' ? (
+              <p className="text-sm text-slate-500">The Excel report always includes every column.</p>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {EXPORT_COLUMNS.map(column => (
+                  <div key={column.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`column-${column.id}`}
+                      checked={options.columns.includes(column.id)}
+                      onCheckedChange={(checked) => update({
+                        // Keep the standard column order whatever order they were ticked in
+                        columns: EXPORT_COLUMNS
+                          .map(({ id }) => id)
+                          .filter(id => id === column.id ? checked === true : options.columns.includes(id)),
+                      })}
+                    />
+                    <Label htmlFor={`column-${column.id}`} className="font-normal">{column.label}</Label>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="items-center gap-2">
+          <span className="text-sm text-slate-500 sm:mr-auto">
+            {selectedRecords.length} record{selectedRecords.length === 1 ? '' : 's'} selected
+          </span>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleExport} className="bg-blue-600 hover:bg-blue-700">
+            {options.format === 'print' ? 'Print' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,142 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, CheckCircle, Clock, ScanLine, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { BreakPolicy, getBreakTypePolicy, getDurationLevel } from '@/lib/break-policy';
+import { BreakRecord, formatDuration, formatTime } from '@/lib/break-records';
+
+export type KioskScanResult =
+  | { kind: 'started' | 'ended'; record: BreakRecord }
+  | { kind: 'error'; message: string };
+
+interface KioskModeProps {
+  policy: BreakPolicy;
+  breakTypeId: string;
+  currentTime: Date;
+  onScan: (code: string) => KioskScanResult;
+  onExit: () => void;
+}
+
+const CONFIRMATION_MS = 5000;
+
+const KioskMode = ({ policy, breakTypeId, currentTime, onScan, onExit }: KioskModeProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [code, setCode] = useState('');
+  const [result, setResult] = useState<KioskScanResult | null>(null);
+
+  // Keep the scanner input focused no matter where the screen is tapped
+  useEffect(() => {
+    const focusInput = () => inputRef.current?.focus();
+    focusInput();
+    const timer = setInterval(focusInput, 500);
+    document.documentElement.requestFullscreen?.().catch(() => undefined);
+
+    return () => {
+      clearInterval(timer);
+      if (document.fullscreenElement) {
+        document.exitFullscreen().catch(() => undefined);
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!result) return;
+    const timer = setTimeout(() => setResult(null), CONFIRMATION_MS);
+    return () => clearTimeout(timer);
+  }, [result]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onExit();
+      return;
+    }
+    if (e.key !== 'Enter') return;
+
+    const scanned = code.trim();
+    setCode('');
+    if (scanned) {
+      setResult(onScan(scanned));
+    }
+  };
+
+  const renderResult = () => {
+    if (!result) {
+      return (
+        <>
+          <ScanLine className="h-24 w-24 text-blue-600" />
+          <p className="text-5xl font-bold text-slate-800">Scan your badge</p>
+          <p className="text-2xl text-slate-500">
+            to start or end your {getBreakTypePolicy(policy, breakTypeId).name.toLowerCase()}
+          </p>
+        </>
+      );
+    }
+
+    if (result.kind === 'error') {
+      return (
+        <>
+          <AlertCircle className="h-24 w-24 text-red-600" />
+          <p className="text-5xl font-bold text-red-700">Not recorded</p>
+          <p className="text-2xl text-slate-600 max-w-2xl">{result.message}</p>
+        </>
+      );
+    }
+
+    const { record } = result;
+    const breakType = getBreakTypePolicy(policy, record.breakType);
+    const duration = (record.endTime ?? currentTime).getTime() - record.startTime.getTime();
+    const level = getDurationLevel(duration, breakType);
+
+    return (
+      <>
+        {result.kind === 'started'
+          ? <Clock className="h-24 w-24 text-blue-600" />
+          : <CheckCircle className={cn('h-24 w-24', level === 'within' ? 'text-green-600' : 'text-red-600')} />}
+        <p className="text-6xl font-bold text-slate-800">{record.name}</p>
+        <p className="text-3xl text-slate-600">
+          {breakType.name} {result.kind === 'started' ? `started at ${formatTime(record.startTime)}` : 'ended'}
+        </p>
+        <p
+          className={cn(
+            'text-7xl font-mono font-bold rounded-xl px-8 py-4',
+            level === 'overtime' && 'bg-red-100 text-red-800',
+            level === 'warning' && 'bg-orange-100 text-orange-800',
+            level === 'within' && (result.kind === 'started' ? 'bg-blue-100 text-blue-800' : 'bg-green-100 text-green-800')
+          )}
+        >
+          {formatDuration(duration)}
+        </p>
+        <p className="text-xl text-slate-500">Allowed: {breakType.allowedMinutes} minutes</p>
+      </>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-6 bg-white p-8 text-center"
+      onClick={() => inputRef.current?.focus()}
+    >
+      <input
+        ref={inputRef}
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        onKeyDown={handleKeyDown}
+        className="absolute h-0 w-0 opacity-0"
+        aria-label="Badge scanner input"
+        autoComplete="off"
+      />
+      <Button
+        onClick={onExit}
+        variant="ghost"
+        size="sm"
+        className="absolute top-4 right-4 text-slate-500 flex items-center gap-2"
+      >
+        <X className="h-4 w-4" />
+        Exit Kiosk
+      </Button>
+      {renderResult()}
+    </div>
+  );
+};
+
+export default KioskMode;
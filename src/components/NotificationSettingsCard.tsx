@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Bell, Play, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { useNotificationSettings } from '@/hooks/use-notification-settings';
+import { AlertLevel } from '@/lib/break-alerts';
+import {
+  NotificationSettings,
+  SOUND_OPTIONS,
+  SoundId,
+  isDesktopNotificationSupported,
+  playSound,
+  requestDesktopPermission,
+} from '@/lib/notifications';
+
+const EVENT_LABELS: Record<AlertLevel, string> = {
+  warning: 'Break passes its warning threshold',
+  overtime: 'Break goes into overtime',
+};
+
+const NotificationSettingsCard = () => {
+  const { settings, saveSettings } = useNotificationSettings();
+  const [draft, setDraft] = useState<NotificationSettings>(settings);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    isDesktopNotificationSupported() ? Notification.permission : 'unsupported'
+  );
+
+  const update = (changes: Partial<NotificationSettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const toggleDesktop = async (enabled: boolean) => {
+    if (!enabled) {
+      update({ desktopEnabled: false });
+      return;
+    }
+
+    const result = await requestDesktopPermission();
+    setPermission(result);
+    if (result === 'granted') {
+      update({ desktopEnabled: true });
+    } else {
+      toast.error('Desktop notifications are blocked', {
+        description: 'Allow notifications for this site in the browser settings.',
+      });
+    }
+  };
+
+  const handleSave = () => {
+    saveSettings(draft);
+    toast.success('Notification settings saved');
+  };
+
+  return (
+    <Card className="mb-8 shadow-lg border-slate-200">
+      <CardHeader>
+        <CardTitle className="text-slate-700 flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Notifications (this station)
+        </CardTitle>
+        <CardDescription>
+          Alert this station with desktop notifications and sounds when a running break passes a threshold,
+          even while the tracker tab is in the background.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+          <div className="flex items-center gap-3">
+            <Switch
+              id="desktopEnabled"
+              checked={draft.desktopEnabled}
+              onCheckedChange={toggleDesktop}
+              disabled={permission === 'unsupported'}
+            />
+            <Label htmlFor="desktopEnabled">
+              Desktop notifications
+              <span className="block text-xs font-normal text-slate-500">
+                {permission === 'unsupported' && 'Not supported by this browser'}
+                {permission === 'denied' && 'Blocked in browser settings'}
+                {permission === 'granted' && 'Permission granted'}
+                {permission === 'default' && 'The browser will ask for permission'}
+              </span>
+            </Label>
+          </div>
+          <div className="flex items-center gap-3">
+            <Switch
+              id="soundEnabled"
+              checked={draft.soundEnabled}
+              onCheckedChange={(soundEnabled) => update({ soundEnabled })}
+            />
+            <Label htmlFor="soundEnabled">Sound</Label>
+          </div>
+        </div>
+
+        <div className="space-y-2 max-w-sm">
+          <Label>Volume ({Math.round(draft.volume * 100)}%)</Label>
+          <Slider
+            value={[Math.round(draft.volume * 100)]}
+            min={0}
+            max={100}
+            step={5}
+            onValueChange={([volume]) => update({ volume: volume / 100 })}
+            disabled={!draft.soundEnabled}
+          />
+        </div>
+
+        <div className="space-y-3">
+          <Label>Events</Label>
+          {(Object.keys(EVENT_LABELS) as AlertLevel[]).map(level => (
+            <div key={level} className="flex items-center gap-3 flex-wrap">
+              <Checkbox
+                id={`notify-${level}`}
+                checked={draft.notifyOn[level]}
+                onCheckedChange={(checked) => update({ notifyOn: { ...draft.notifyOn, [level]: checked === true } })}
+              />
+              <Label htmlFor={`notify-${level}`} className="w-64 font-normal">{EVENT_LABELS[level]}</Label>
+              <div className="w-36">
+                <Select
+                  value={draft.sounds[level]}
+                  onValueChange={(sound) => update({ sounds: { ...draft.sounds, [level]: sound as SoundId } })}
+                >
+                  <SelectTrigger aria-label={`Sound for ${EVENT_LABELS[level].toLowerCase()}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SOUND_OPTIONS.map(option => (
+                      <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                onClick={() => playSound(draft.sounds[level], draft.volume)}
+                variant="ghost"
+                size="sm"
+                className="flex items-center gap-1"
+              >
+                <Play className="h-4 w-4" />
+                Test
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-3">
+            <Switch
+              id="quietHours"
+              checked={draft.quietHours.enabled}
+              onCheckedChange={(enabled) => update({ quietHours: { ...draft.quietHours, enabled } })}
+            />
+            <Label htmlFor="quietHours">Quiet hours</Label>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <Input
+              type="time"
+              aria-label="Quiet hours start"
+              value={draft.quietHours.start}
+              onChange={(e) => update({ quietHours: { ...draft.quietHours, start: e.target.value } })}
+              disabled={!draft.quietHours.enabled}
+              className="w-32"
+            />
+            to
+            <Input
+              type="time"
+              aria-label="Quiet hours end"
+              value={draft.quietHours.end}
+              onChange={(e) => update({ quietHours: { ...draft.quietHours, end: e.target.value } })}
+              disabled={!draft.quietHours.enabled}
+              className="w-32"
+            />
+          </div>
+          <p className="text-xs text-slate-500">
+            No sounds or desktop notifications during quiet hours. Alerts still appear on screen.
+          </p>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2">
+            <Save className="h-4 w-4" />
+            Save Notifications
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NotificationSettingsCard;
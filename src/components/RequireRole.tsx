@@ -0,0 +1,33 @@
+import { ReactNode } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { ShieldAlert } from 'lucide-react';
+import AppNav from '@/components/AppNav';
+import { useAuth } from '@/hooks/use-auth';
+import { hasRole, USER_ROLE_LABELS, UserRole } from '@/lib/user-roles';
+
+interface RequireRoleProps {
+  role: UserRole;
+  children: ReactNode;
+}
+
+// For pages whose data the server only returns to this role and above
+const RequireRole = ({ role, children }: RequireRoleProps) => {
+  const { profile } = useAuth();
+  if (hasRole(profile, role)) return <>{children}</>;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-slate-50 p-4">
+      <div className="max-w-7xl mx-auto pt-8 space-y-8">
+        <AppNav />
+        <Card className="max-w-md mx-auto shadow-lg border-slate-200">
+          <CardContent className="p-6 flex items-center gap-3 text-slate-700">
+            <ShieldAlert className="h-5 w-5 text-orange-600 shrink-0" />
+            This page is only available to {USER_ROLE_LABELS[role].toLowerCase()}s and above.
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default RequireRole;
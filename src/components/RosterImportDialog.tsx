@@ -0,0 +1,268 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Associate } from '@/lib/roster';
+import {
+  ColumnMapping,
+  ImportAction,
+  ImportRow,
+  ROSTER_FIELDS,
+  Spreadsheet,
+  guessColumnMapping,
+  planRosterImport,
+  readSpreadsheet,
+} from '@/lib/roster-import';
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+interface ImportSummary {
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+interface RosterImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  roster: Associate[];
+  onImport: (associates: Associate[]) => Promise<void>;
+}
+
+const NO_COLUMN = 'none';
+
+const actionStyles: Record<ImportAction, string> = {
+  add: 'bg-green-100 text-green-800 border-green-200',
+  update: 'bg-blue-100 text-blue-800 border-blue-200',
+  skip: 'bg-slate-100 text-slate-600 border-slate-200',
+};
+
+const RosterImportDialog = ({ open, onOpenChange, roster, onImport }: RosterImportDialogProps) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [spreadsheet, setSpreadsheet] = useState<Spreadsheet>({ headers: [], rows: [] });
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [plan, setPlan] = useState<ImportRow[]>([]);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setSpreadsheet({ headers: [], rows: [] });
+    setMapping(null);
+    setPlan([]);
+    setSummary(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    try {
+      const parsed = await readSpreadsheet(file);
+      if (parsed.rows.length === 0) {
+        toast.error('No rows found', { description: 'The first sheet needs a header row and at least one associate.' });
+        return;
+      }
+      setFileName(file.name);
+      setSpreadsheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading roster file:', error);
+      toast.error('Could not read that file', { description: 'Use an .xlsx or .csv file.' });
+    }
+  };
+
+  const showPreview = () => {
+    if (!mapping || mapping.displayName === null) {
+      toast.error('Choose which column holds the name');
+      return;
+    }
+    setPlan(planRosterImport(spreadsheet.rows, mapping, roster));
+    setStep('preview');
+  };
+
+  const commitImport = async () => {
+    const changes = plan.filter(row => row.action !== 'skip').map(row => row.associate);
+    setIsImporting(true);
+    try {
+      await onImport(changes);
+      const result = {
+        added: plan.filter(row => row.action === 'add').length,
+        updated: plan.filter(row => row.action === 'update').length,
+        skipped: plan.filter(row => row.action === 'skip').length,
+      };
+      setSummary(result);
+      setStep('done');
+      toast.success('Roster imported', {
+        description: `${result.added} added, ${result.updated} updated, ${result.skipped} skipped`,
+      });
+    } catch (error) {
+      console.error('Error importing roster:', error);
+      toast.error('Import failed', { description: 'No associates were changed.' });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const countByAction = (action: ImportAction) => plan.filter(row => row.action === action).length;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Roster</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Choose an .xlsx or .csv file. The first row should hold the column headings.'}
+            {step === 'map' && `Match the columns in ${fileName} to roster fields.`}
+            {step === 'preview' && 'Review what will change before committing the import.'}
+            {step === 'done' && 'The import is complete.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-2 py-4">
+            <Label htmlFor="rosterFile">Roster file</Label>
+            <Input
+              id="rosterFile"
+              type="file"
+              accept=".xlsx,.xls,.csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+        )}
+
+        {step === 'map' && mapping && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 py-4">
+            {ROSTER_FIELDS.map(({ field, label, required }) => (
+              <div key={field} className="space-y-2">
+                <Label>{label}{required && ' *'}</Label>
+                <Select
+                  value={mapping[field] === null ? NO_COLUMN : String(mapping[field])}
+                  onValueChange={(value) => setMapping(prev => prev && ({
+                    ...prev,
+                    [field]: value === NO_COLUMN ? null : Number(value),
+                  }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_COLUMN}>Not in file</SelectItem>
+                    {spreadsheet.headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header || `Column ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <p className="text-sm text-slate-500 sm:col-span-2">
+              {spreadsheet.rows.length} row{spreadsheet.rows.length === 1 ? '' : 's'} found.
+            </p>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-3">
+            <div className="flex gap-2 flex-wrap text-sm">
+              <Badge variant="outline" className={actionStyles.add}>{countByAction('add')} to add</Badge>
+              <Badge variant="outline" className={actionStyles.update}>{countByAction('update')} to update</Badge>
+              <Badge variant="outline" className={actionStyles.skip}>{countByAction('skip')} to skip</Badge>
+            </div>
+            <ScrollArea className="h-80 rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-blue-50">
+                    <TableHead>Row</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Badge</TableHead>
+                    <TableHead>Team</TableHead>
+                    <TableHead>Shift</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.map(row => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell className="text-slate-500">{row.rowNumber}</TableCell>
+                      <TableCell className="font-medium">{row.associate.displayName}</TableCell>
+                      <TableCell>{row.associate.badgeNumber}</TableCell>
+                      <TableCell>{row.associate.team}</TableCell>
+                      <TableCell>{row.associate.shift}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={actionStyles[row.action]}>{row.note}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </div>
+        )}
+
+        {step === 'done' && summary && (
+          <div className="grid grid-cols-3 gap-4 py-4 text-center">
+            <div>
+              <p className="text-2xl font-bold text-green-700">{summary.added}</p>
+              <p className="text-sm text-slate-600">Added</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-blue-700">{summary.updated}</p>
+              <p className="text-sm text-slate-600">Updated</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-slate-600">{summary.skipped}</p>
+              <p className="text-sm text-slate-600">Skipped</p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={reset}>Choose Another File</Button>
+              <Button onClick={showPreview} className="bg-blue-600 hover:bg-blue-700">Preview</Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')}>Back</Button>
+              <Button
+                onClick={commitImport}
+                disabled={isImporting || countByAction('skip') === plan.length}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                {isImporting ? 'Importing...' : 'Import'}
+              </Button>
+            </>
+          )}
+          {step === 'done' && (
+            <Button onClick={() => handleOpenChange(false)}>Close</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RosterImportDialog;
@@ -0,0 +1,45 @@
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { MonitorSmartphone } from 'lucide-react';
+import { ConnectedStation } from '@/hooks/use-break-realtime';
+
+interface StationPresenceProps {
+  stations: ConnectedStation[];
+  currentStationId: string;
+  isSubscribed: boolean;
+}
+
+const StationPresence = ({ stations, currentStationId, isSubscribed }: StationPresenceProps) => {
+  if (!isSubscribed) {
+    return (
+      <Badge variant="outline" className="flex items-center gap-1 text-slate-500">
+        <MonitorSmartphone className="h-3 w-3" />
+        Live updates paused
+      </Badge>
+    );
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className="flex items-center gap-1 text-blue-700 border-blue-200 bg-blue-50 cursor-default">
+          <span className="h-2 w-2 rounded-full bg-green-500" />
+          {stations.length} station{stations.length === 1 ? '' : 's'} connected
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent>
+        <ul className="space-y-1">
+          {stations.map(station => (
+            <li key={station.stationId} className="flex items-center gap-2">
+              <MonitorSmartphone className="h-3 w-3" />
+              {station.name}
+              {station.stationId === currentStationId && <span className="text-muted-foreground">(this station)</span>}
+            </li>
+          ))}
+        </ul>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default StationPresence;
@@ -0,0 +1,66 @@
+import { format } from 'date-fns';
+import { AlertTriangle, Download, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { downloadTextFile } from '@/lib/break-export';
+import { BreakStorageError, discardUnreadableBreakRecords } from '@/lib/break-storage';
+
+interface StorageRecoveryProps {
+  error: BreakStorageError;
+  onRecovered: () => void;
+}
+
+/**
+ * Shown instead of the board when the saved records cannot be read, so nothing overwrites
+ * them until the user has had a chance to download the raw data.
+ */
+const StorageRecovery = ({ error, onRecovered }: StorageRecoveryProps) => {
+  const downloadRawData = () => {
+    const fileName = `break_records_backup_${format(new Date(), 'yyyy-MM-dd_HHmmss')}.json`;
+    downloadTextFile(error.rawData, fileName, 'application/json');
+    toast.success('Saved data downloaded', { description: fileName });
+  };
+
+  const startFresh = () => {
+    if (!window.confirm('Start again without the damaged data? Records already shared with other stations will still load. Download the saved data first if you may need it.')) {
+      return;
+    }
+    discardUnreadableBreakRecords(error.rawData);
+    onRecovered();
+    toast.success('Tracker reset', { description: 'The damaged data was set aside on this device.' });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-slate-50 p-4 flex items-center justify-center">
+      <Card className="max-w-xl shadow-lg border-red-200">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-red-700">
+            <AlertTriangle className="h-5 w-5" />
+            Saved break records could not be loaded
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-slate-700">{error.message}</p>
+          <p className="text-sm text-slate-600">
+            The data has not been changed. Download it to keep a copy or to send to your administrator,
+            then start fresh to keep tracking breaks.
+          </p>
+          <p className="text-xs text-slate-500">{error.rawData.length.toLocaleString('en-US')} characters saved on this device</p>
+          <div className="flex gap-2 flex-wrap">
+            <Button onClick={downloadRawData} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700">
+              <Download className="h-4 w-4" />
+              Download Saved Data
+            </Button>
+            <Button onClick={startFresh} variant="outline" className="flex items-center gap-2">
+              <RotateCcw className="h-4 w-4" />
+              Start Fresh
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StorageRecovery;
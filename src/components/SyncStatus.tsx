@@ -0,0 +1,128 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle, Cloud, CloudOff, RefreshCw, X } from 'lucide-react';
+import { SyncConflict } from '@/lib/sync-queue';
+
+interface SyncStatusProps {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  conflicts: SyncConflict[];
+  onSyncNow: () => void;
+  onDismissConflict: (id: string) => void;
+  onClearConflicts: () => void;
+}
+
+const operationLabels: Record<SyncConflict['operation'], string> = {
+  start: 'Start break',
+  end: 'End break',
+  reason: 'Reason edit',
+  adjust: 'Time correction',
+  delete: 'Delete',
+  archive: 'Shift close',
+  restore: 'Undo / redo',
+};
+
+const SyncStatus = ({
+  isOnline,
+  isSyncing,
+  pendingCount,
+  conflicts,
+  onSyncNow,
+  onDismissConflict,
+  onClearConflicts,
+}: SyncStatusProps) => {
+  return (
+    <div className="flex items-center justify-center gap-2 flex-wrap text-sm">
+      {isOnline ? (
+        <Badge variant="outline" className="flex items-center gap-1 text-green-700 border-green-200 bg-green-50">
+          <Cloud className="h-3 w-3" />
+          Online
+        </Badge>
+      ) : (
+        <Badge variant="outline" className="flex items-center gap-1 text-orange-700 border-orange-200 bg-orange-50">
+          <CloudOff className="h-3 w-3" />
+          Offline
+        </Badge>
+      )}
+
+      <span className="text-slate-500">
+        {pendingCount === 0
+          ? 'All changes synced'
+          : `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to sync`}
+      </span>
+
+      <Button onClick={onSyncNow} variant="ghost" size="sm" disabled={isSyncing} className="text-slate-600">
+        <RefreshCw className={`h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+        <span className="sr-only">Sync now</span>
+      </Button>
+
+      {conflicts.length > 0 && (
+        <Dialog>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" className="flex items-center gap-1 text-orange-700 border-orange-200">
+              <AlertTriangle className="h-4 w-4" />
+              {conflicts.length} sync conflict{conflicts.length === 1 ? '' : 's'}
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Sync Conflicts</DialogTitle>
+              <DialogDescription>
+                Changes made at this station that clashed with another station while offline,
+                and how each one was resolved.
+              </DialogDescription>
+            </DialogHeader>
+            <ScrollArea className="max-h-96 pr-4">
+              <div className="space-y-3">
+                {conflicts.map(conflict => (
+                  <div key={conflict.id} className="rounded-md border border-slate-200 p-3 text-sm">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <p className="font-medium text-slate-800">
+                          {operationLabels[conflict.operation]}
+                          {conflict.associateName && ` · ${conflict.associateName}`}
+                        </p>
+                        <p className="text-slate-600">{conflict.resolution}</p>
+                      </div>
+                      <Button
+                        onClick={() => onDismissConflict(conflict.id)}
+                        variant="ghost"
+                        size="sm"
+                        className="text-slate-500"
+                      >
+                        <X className="h-4 w-4" />
+                        <span className="sr-only">Mark as reviewed</span>
+                      </Button>
+                    </div>
+                    <div className="mt-2 grid grid-cols-1 sm:grid-cols-3 gap-1 text-xs text-slate-500">
+                      <span>Detected: {new Date(conflict.detectedAt).toLocaleString('en-US')}</span>
+                      {conflict.localValue !== undefined && <span>This station: {conflict.localValue || '(empty)'}</span>}
+                      {conflict.remoteValue !== undefined && <span>Other station: {conflict.remoteValue || '(empty)'}</span>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+            <div className="flex justify-end">
+              <Button onClick={onClearConflicts} variant="outline">
+                Mark all as reviewed
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatus;
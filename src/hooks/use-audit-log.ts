@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { AuditAction, AuditEntry } from '@/lib/audit-log';
+import { fetchAuditLog } from '@/lib/audit-log-api';
+import { DayRange } from '@/lib/date-range';
+
+/**
+ * Read-only view of the shared audit log, filtered by date and action on the server and loaded
+ * again when those filters change. Changes still queued at a station appear once they reach the
+ * server, which records them.
+ */
+export function useAuditLog(range: DayRange | null, action: AuditAction | null) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const from = range?.from.getTime();
+  const to = range?.to.getTime();
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    const filters = {
+      range: from !== undefined && to !== undefined ? { from: new Date(from), to: new Date(to) } : null,
+      action,
+    };
+    fetchAuditLog(filters)
+      .then(remoteEntries => {
+        if (!cancelled) setEntries(remoteEntries);
+      })
+      .catch(error => {
+        console.error('Error loading audit log:', error);
+        toast.error('Could not load the audit log', {
+          description: 'Check the connection and reload the page.',
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to, action]);
+
+  return { entries, isLoading };
+}
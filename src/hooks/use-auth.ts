@@ -0,0 +1,108 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { UserProfile } from '@/lib/user-roles';
+import { fetchUserProfile, signOut as signOutUser } from '@/lib/auth-api';
+
+export const PROFILE_STORAGE_KEY = 'breakTimeTrackerProfile';
+
+// `unavailable` means the role could not be checked and no copy was saved on this device
+export type AuthStatus = 'loading' | 'signedOut' | 'noRole' | 'unavailable' | 'signedIn';
+
+export interface AuthState {
+  status: AuthStatus;
+  session: Session | null;
+  profile: UserProfile | null;
+  signOut: () => Promise<void>;
+}
+
+// The last profile loaded, so a station that goes offline keeps working as the same user
+const loadCachedProfile = (userId: string): UserProfile | null => {
+  const saved = localStorage.getItem(PROFILE_STORAGE_KEY);
+  if (!saved) return null;
+  try {
+    const profile = JSON.parse(saved) as UserProfile;
+    return profile.userId === userId ? profile : null;
+  } catch (error) {
+    console.error('Error reading cached profile:', error);
+    return null;
+  }
+};
+
+/**
+ * Tracks the Supabase Auth session and the signed-in user's role. Used once by AuthGate;
+ * everything below it reads the result through useAuth.
+ */
+export function useAuthSession() {
+  // undefined until the stored session has been read
+  const [session, setSession] = useState<Session | null | undefined>(undefined);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [status, setStatus] = useState<AuthStatus>('loading');
+
+  useEffect(() => {
+    void supabase.auth.getSession().then(({ data }) => setSession(data.session));
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const sessionKnown = session !== undefined;
+  const userId = session?.user.id;
+  const email = session?.user.email ?? '';
+
+  useEffect(() => {
+    if (!sessionKnown) return;
+    if (!userId) {
+      setProfile(null);
+      setStatus('signedOut');
+      return;
+    }
+    let cancelled = false;
+    setStatus('loading');
+
+    fetchUserProfile(userId, email)
+      .then(remoteProfile => {
+        if (cancelled) return;
+        if (remoteProfile) {
+          localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(remoteProfile));
+        } else {
+          localStorage.removeItem(PROFILE_STORAGE_KEY);
+        }
+        setProfile(remoteProfile);
+        setStatus(remoteProfile ? 'signedIn' : 'noRole');
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Error loading user role:', error);
+        const cached = loadCachedProfile(userId);
+        setProfile(cached);
+        setStatus(cached ? 'signedIn' : 'unavailable');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionKnown, userId, email]);
+
+  const signOut = useCallback(async () => {
+    try {
+      await signOutUser();
+      localStorage.removeItem(PROFILE_STORAGE_KEY);
+    } catch (error) {
+      console.error('Error signing out:', error);
+      toast.error('Could not sign out', { description: 'Check the connection and try again.' });
+    }
+  }, []);
+
+  return { status, session: session ?? null, profile, signOut };
+}
+
+export const AuthContext = createContext<AuthState | null>(null);
+
+export function useAuth() {
+  const auth = useContext(AuthContext);
+  if (!auth) throw new Error('useAuth must be used inside AuthGate');
+  return auth;
+}
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { BreakPolicy } from '@/lib/break-policy';
+import { BreakRecord } from '@/lib/break-records';
+import { BreakAlert, detectThresholdCrossings, mergeAlerts } from '@/lib/break-alerts';
+import { withStorageLock } from '@/lib/cross-tab';
+import { getShiftCloseTimes } from '@/lib/shift-rollover';
+
+export const ALERTS_STORAGE_KEY = 'breakTimeTrackerAlerts';
+
+// Acknowledged alerts are only kept long enough to stop them firing again
+const ACKNOWLEDGED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const loadAlerts = (savedAlerts = localStorage.getItem(ALERTS_STORAGE_KEY)): BreakAlert[] => {
+  if (!savedAlerts) return [];
+
+  try {
+    return JSON.parse(savedAlerts) as BreakAlert[];
+  } catch (error) {
+    console.error('Error loading alerts:', error);
+    return [];
+  }
+};
+
+export function useBreakAlerts(
+  breakRecords: BreakRecord[],
+  policy: BreakPolicy,
+  currentTime: Date,
+  // Extra side effects for each newly raised alert, such as sounds
+  onRaised?: (alert: BreakAlert) => void
+) {
+  const [alerts, setAlerts] = useState<BreakAlert[]>(loadAlerts);
+  const alertsRef = useRef(alerts);
+  alertsRef.current = alerts;
+  const onRaisedRef = useRef(onRaised);
+  onRaisedRef.current = onRaised;
+
+  const acknowledge = useCallback((id: string) => {
+    setAlerts(prev => prev.map(alert =>
+      alert.id === id && !alert.acknowledgedAt
+        ? { ...alert, acknowledgedAt: new Date().toISOString() }
+        : alert
+    ));
+  }, []);
+
+  const acknowledgeAll = useCallback(() => {
+    const now = new Date().toISOString();
+    setAlerts(prev => prev.map(alert => alert.acknowledgedAt ? alert : { ...alert, acknowledgedAt: now }));
+  }, []);
+
+  // Check running breaks on every tick of the clock
+  useEffect(() => {
+    // Breaks left running before the last shift close are archived as unclosed, not alerted on
+    const { lastClose } = getShiftCloseTimes(policy.shiftCloseTime, currentTime);
+    const currentShift = breakRecords.filter(record => record.startTime >= lastClose);
+    const knownIds = new Set(alertsRef.current.map(alert => alert.id));
+    if (detectThresholdCrossings(currentShift, policy, currentTime, knownIds).length === 0) return;
+
+    // Every open tab sees the same crossing; only the one whose save adds it to storage notifies
+    withStorageLock(ALERTS_STORAGE_KEY, () => {
+      const saved = loadAlerts();
+      const savedIds = new Set([...knownIds, ...saved.map(alert => alert.id)]);
+      const added = detectThresholdCrossings(currentShift, policy, currentTime, savedIds);
+      if (added.length > 0) {
+        localStorage.setItem(ALERTS_STORAGE_KEY, JSON.stringify(mergeAlerts(added, saved)));
+      }
+      return added;
+    }).then(added => {
+      if (added.length === 0) return;
+
+      setAlerts(prev => mergeAlerts(prev, added));
+      added.forEach(alert => {
+        const message = `${alert.associateName}'s ${alert.breakTypeName.toLowerCase()} passed ${alert.thresholdMinutes} minutes`;
+        const options = {
+          description: alert.level === 'overtime' ? 'Break is now overtime.' : 'Break is still running.',
+          duration: alert.level === 'overtime' ? 15000 : 8000,
+          action: { label: 'Acknowledge', onClick: () => acknowledge(alert.id) },
+        };
+        if (alert.level === 'overtime') {
+          toast.error(message, options);
+        } else {
+          toast.warning(message, options);
+        }
+        onRaisedRef.current?.(alert);
+      });
+    }).catch(error => {
+      console.error('Error raising alerts:', error);
+    });
+  }, [breakRecords, policy, currentTime, acknowledge]);
+
+  // Saved on top of what other tabs have saved, so an acknowledgement in one tab is not undone by another
+  useEffect(() => {
+    withStorageLock(ALERTS_STORAGE_KEY, () => {
+      const cutoff = Date.now() - ACKNOWLEDGED_RETENTION_MS;
+      const retained = mergeAlerts(alerts, loadAlerts()).filter(alert =>
+        !alert.acknowledgedAt || new Date(alert.acknowledgedAt).getTime() > cutoff
+      );
+      const serialized = JSON.stringify(retained);
+      if (localStorage.getItem(ALERTS_STORAGE_KEY) !== serialized) {
+        localStorage.setItem(ALERTS_STORAGE_KEY, serialized);
+      }
+    }).catch(error => {
+      console.error('Error saving alerts:', error);
+    });
+  }, [alerts]);
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== ALERTS_STORAGE_KEY || !event.newValue) return;
+      const theirs = loadAlerts(event.newValue);
+      setAlerts(prev => {
+        const merged = mergeAlerts(prev, theirs);
+        return JSON.stringify(merged) === JSON.stringify(prev) ? prev : merged;
+      });
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const unacknowledged = alerts.filter(alert => !alert.acknowledgedAt);
+
+  return { alerts, unacknowledged, acknowledge, acknowledgeAll };
+}
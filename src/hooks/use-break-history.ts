@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { fetchBreakHistory } from '@/lib/break-records-api';
+import { BreakRecord } from '@/lib/break-records';
+import { loadBreakRecords } from '@/lib/break-storage';
+
+// Unreadable or quarantined records are dealt with on the tracker page
+const loadCachedBreakRecords = (): BreakRecord[] => loadBreakRecords().records;
+
+/**
+ * Read-only view of every break record, archived or not, for reporting pages.
+ */
+export function useBreakHistory() {
+  const [records, setRecords] = useState<BreakRecord[]>(loadCachedBreakRecords);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchBreakHistory()
+      .then(remoteRecords => {
+        if (!cancelled) setRecords(remoteRecords);
+      })
+      .catch(error => {
+        console.error('Error loading break history:', error);
+        toast.error('Could not load break history', {
+          description: 'Showing the records saved on this device.',
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { records, isLoading };
+}
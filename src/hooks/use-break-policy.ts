@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react';
+import { BreakPolicy, withPolicyDefaults } from '@/lib/break-policy';
+import { fetchBreakPolicy, saveBreakPolicy } from '@/lib/break-policy-api';
+
+export const POLICY_STORAGE_KEY = 'breakTimeTrackerPolicy';
+
+// The last policy loaded, so the tracker keeps timing breaks correctly while offline
+export const loadBreakPolicy = (): BreakPolicy => {
+  const savedPolicy = localStorage.getItem(POLICY_STORAGE_KEY);
+  if (!savedPolicy) return withPolicyDefaults(null);
+
+  try {
+    return withPolicyDefaults(JSON.parse(savedPolicy) as Partial<BreakPolicy>);
+  } catch (error) {
+    console.error('Error loading break policy:', error);
+    return withPolicyDefaults(null);
+  }
+};
+
+export function useBreakPolicy() {
+  const [policy, setPolicy] = useState<BreakPolicy>(loadBreakPolicy);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchBreakPolicy()
+      .then(remotePolicy => {
+        if (!cancelled && remotePolicy) setPolicy(remotePolicy);
+      })
+      .catch(error => {
+        console.error('Error loading break policy:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(policy));
+  }, [policy]);
+
+  const savePolicy = useCallback(async (nextPolicy: BreakPolicy) => {
+    await saveBreakPolicy(nextPolicy);
+    setPolicy(nextPolicy);
+  }, []);
+
+  return { policy, isLoading, savePolicy };
+}
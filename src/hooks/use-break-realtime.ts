@@ -0,0 +1,68 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { BreakRecordRow, fromBreakRecordRow } from '@/lib/break-records-api';
+import { BreakRecord } from '@/lib/break-records';
+import { getStationId, getStationName } from '@/lib/station';
+
+export interface ConnectedStation {
+  stationId: string;
+  name: string;
+  connectedAt: string;
+}
+
+interface UseBreakRealtimeOptions {
+  onRecordChanged: (record: BreakRecord) => void;
+  onRecordDeleted: (id: string) => void;
+}
+
+export function useBreakRealtime({ onRecordChanged, onRecordDeleted }: UseBreakRealtimeOptions) {
+  const [stations, setStations] = useState<ConnectedStation[]>([]);
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const handlersRef = useRef({ onRecordChanged, onRecordDeleted });
+  handlersRef.current = { onRecordChanged, onRecordDeleted };
+
+  useEffect(() => {
+    const stationId = getStationId();
+    const channel = supabase.channel('break-records', {
+      config: { presence: { key: stationId } },
+    });
+
+    channel
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'break_records' },
+        (payload: RealtimePostgresChangesPayload<BreakRecordRow>) => {
+          if (payload.eventType === 'DELETE') {
+            if (payload.old.id) handlersRef.current.onRecordDeleted(payload.old.id);
+            return;
+          }
+          handlersRef.current.onRecordChanged(fromBreakRecordRow(payload.new));
+        }
+      )
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<ConnectedStation>();
+        const connected = Object.values(state)
+          .map(presences => presences[0])
+          .filter(Boolean)
+          .sort((a, b) => a.name.localeCompare(b.name));
+        setStations(connected);
+      })
+      .subscribe(async status => {
+        setIsSubscribed(status === 'SUBSCRIBED');
+        if (status === 'SUBSCRIBED') {
+          await channel.track({
+            stationId,
+            name: getStationName(),
+            connectedAt: new Date().toISOString(),
+          });
+        }
+      });
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }, []);
+
+  return { stations, isSubscribed, stationId: getStationId() };
+}
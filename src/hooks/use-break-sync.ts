@@ -0,0 +1,208 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchBoardRecords } from '@/lib/break-records-api';
+import { BreakRecord } from '@/lib/break-records';
+import {
+  LAST_SYNC_STORAGE_KEY,
+  OfflineError,
+  SignedOutError,
+  SYNC_CONFLICTS_STORAGE_KEY,
+  SYNC_QUEUE_STORAGE_KEY,
+  SyncConflict,
+  SyncOperation,
+  SyncOperationInput,
+  createConflict,
+  createOperation,
+  loadSyncConflicts,
+  loadSyncQueue,
+  replayOperation,
+  updateSyncConflicts,
+  updateSyncQueue,
+  withReplayLock,
+} from '@/lib/sync-queue';
+
+const RETRY_INTERVAL_MS = 30000;
+// Allowance for this device's clock running ahead of the server's when asking for recent changes
+const CLOCK_MARGIN_MS = 10 * 60 * 1000;
+
+interface UseBreakSyncOptions {
+  // Called once every queued change has been replayed, with the server's board records and any
+  // archived ones changed since the last sync
+  onSynced: (records: BreakRecord[]) => void;
+}
+
+export function useBreakSync({ onSynced }: UseBreakSyncOptions) {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingCount, setPendingCount] = useState(() => loadSyncQueue().length);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>(loadSyncConflicts);
+
+  const queueRef = useRef<SyncOperation[]>(loadSyncQueue());
+  // Changes queued here whose save to storage has not finished yet
+  const unsavedRef = useRef(new Set<string>());
+  const flushingRef = useRef(false);
+  const flushAgainRef = useRef(false);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const showQueue = useCallback((queue: SyncOperation[]) => {
+    queueRef.current = queue;
+    setPendingCount(queue.length);
+  }, []);
+
+  const saveConflicts = useCallback((update: (conflicts: SyncConflict[]) => SyncConflict[]) => {
+    updateSyncConflicts(update)
+      .then(setConflicts)
+      .catch(error => console.error('Error saving sync conflicts:', error));
+  }, []);
+
+  const logConflict = useCallback((conflict: SyncConflict) => {
+    saveConflicts(prev => [conflict, ...prev]);
+  }, [saveConflicts]);
+
+  const flush = useCallback(async () => {
+    if (flushingRef.current) {
+      flushAgainRef.current = true;
+      return;
+    }
+    flushingRef.current = true;
+    setIsSyncing(true);
+
+    try {
+      await withReplayLock(async () => {
+        // Other tabs may have replayed or queued changes while this one waited for its turn
+        let queue = loadSyncQueue();
+        showQueue(queue);
+
+        while (queue.length > 0) {
+          const [operation] = queue;
+          try {
+            const conflict = await replayOperation(operation);
+            if (conflict) logConflict(createConflict(conflict));
+          } catch (error) {
+            if (error instanceof OfflineError) {
+              setIsOnline(false);
+              return;
+            }
+            // Kept for when the user signs in again rather than discarded with the expired session
+            if (error instanceof SignedOutError) return;
+            // The server rejected the change outright; log it so the queue does not stall
+            console.error('Error replaying queued change:', error);
+            logConflict(createConflict({
+              operation: operation.type,
+              recordId: 'recordId' in operation ? operation.recordId : undefined,
+              associateName: operation.associateName,
+              resolution: `Rejected by the server: ${(error as Error).message ?? 'unknown error'}`,
+            }));
+          }
+          queue = await updateSyncQueue(queued => queued.filter(entry => entry.id !== operation.id));
+          showQueue(queue);
+        }
+
+        const lastSync = localStorage.getItem(LAST_SYNC_STORAGE_KEY);
+        const records = await fetchBoardRecords(
+          lastSync ? new Date(new Date(lastSync).getTime() - CLOCK_MARGIN_MS) : undefined
+        );
+        setIsOnline(true);
+        // Changes queued while fetching, saved or not, would be lost by replacing local state now
+        if (unsavedRef.current.size === 0 && loadSyncQueue().length === 0) {
+          localStorage.setItem(LAST_SYNC_STORAGE_KEY, new Date().toISOString());
+          onSyncedRef.current(records);
+        }
+      });
+    } catch (error) {
+      console.error('Error refreshing shared records:', error);
+      setIsOnline(false);
+    } finally {
+      flushingRef.current = false;
+      setIsSyncing(false);
+      if (flushAgainRef.current) {
+        flushAgainRef.current = false;
+        void flush();
+      }
+    }
+  }, [showQueue, logConflict]);
+
+  const enqueue = useCallback((input: SyncOperationInput) => {
+    const operation = createOperation(input);
+    // Counted straight away; saving waits for any other tab updating the queue
+    showQueue([...queueRef.current, operation]);
+    unsavedRef.current.add(operation.id);
+    updateSyncQueue(queue => [...queue, operation])
+      .then(queue => {
+        unsavedRef.current.delete(operation.id);
+        showQueue(queue);
+        void flush();
+      })
+      .catch(error => {
+        unsavedRef.current.delete(operation.id);
+        console.error('Error queueing change:', error);
+      });
+  }, [showQueue, flush]);
+
+  const dismissConflict = useCallback((id: string) => {
+    saveConflicts(prev => prev.filter(conflict => conflict.id !== id));
+  }, [saveConflicts]);
+
+  const clearConflicts = useCallback(() => {
+    saveConflicts(() => []);
+  }, [saveConflicts]);
+
+  // Follow changes other tabs make to the shared queue and conflict list
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === SYNC_QUEUE_STORAGE_KEY) {
+        showQueue(loadSyncQueue());
+      } else if (event.key === SYNC_CONFLICTS_STORAGE_KEY) {
+        setConflicts(loadSyncConflicts());
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [showQueue]);
+
+  // Sync on mount and whenever the browser reports the connection is back
+  useEffect(() => {
+    void flush();
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      void flush();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [flush]);
+
+  // A refreshed token or a new sign-in lets changes held back by an expired session through
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(event => {
+      if (event === 'SIGNED_IN' || event === 'TOKEN_REFRESHED') void flush();
+    });
+    return () => subscription.unsubscribe();
+  }, [flush]);
+
+  // Keep retrying while changes are waiting, since `online` events are not always reliable
+  useEffect(() => {
+    if (pendingCount === 0) return;
+    const timer = setInterval(() => void flush(), RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [pendingCount, flush]);
+
+  return {
+    enqueue,
+    flush,
+    isOnline,
+    isSyncing,
+    pendingCount,
+    conflicts,
+    dismissConflict,
+    clearConflicts,
+  };
+}
@@ -0,0 +1,85 @@
+import { Dispatch, SetStateAction, useEffect, useRef } from 'react';
+import { BreakRecord } from '@/lib/break-records';
+import { BREAK_RECORDS_STORAGE_KEY, parseStoredBreakRecords, serializeBreakRecords } from '@/lib/break-storage';
+import { hasLocalChanges, mergeTabChanges, sameRecords, withStorageLock } from '@/lib/cross-tab';
+
+interface UseCrossTabSyncOptions {
+  records: BreakRecord[];
+  setRecords: Dispatch<SetStateAction<BreakRecord[]>>;
+  // The copy read from storage when the page loaded
+  initialRecords: BreakRecord[];
+  // Off while the saved data is unreadable, so it is not overwritten
+  enabled: boolean;
+}
+
+const readSavedRecords = () => {
+  const savedData = localStorage.getItem(BREAK_RECORDS_STORAGE_KEY);
+  if (!savedData) return null;
+  try {
+    return parseStoredBreakRecords(savedData).records;
+  } catch (error) {
+    console.error('Error reading break records saved by another tab:', error);
+    return null;
+  }
+};
+
+/**
+ * Saves break records to local storage and keeps every open tab on the same records. Each save
+ * merges this tab's changes into whatever other tabs have saved since, and changes saved by
+ * other tabs are merged into this tab's state as they arrive.
+ */
+export function useCrossTabSync({ records, setRecords, initialRecords, enabled }: UseCrossTabSyncOptions) {
+  // The last copy this tab read from or wrote to storage
+  const baseRef = useRef(initialRecords);
+  // Latest records, including changes merged in but not yet rendered
+  const recordsRef = useRef(records);
+  recordsRef.current = records;
+
+  useEffect(() => {
+    if (!enabled || !hasLocalChanges(baseRef.current, records)) return;
+
+    withStorageLock(BREAK_RECORDS_STORAGE_KEY, () => {
+      const mine = recordsRef.current;
+      const base = baseRef.current;
+      if (!hasLocalChanges(base, mine)) return;
+
+      const merged = mergeTabChanges(base, mine, readSavedRecords() ?? base);
+      localStorage.setItem(BREAK_RECORDS_STORAGE_KEY, serializeBreakRecords(merged));
+      baseRef.current = merged;
+
+      // Pick up what other tabs saved, keeping anything changed here while waiting for the lock
+      if (!sameRecords(merged, mine)) {
+        recordsRef.current = merged;
+        setRecords(current => current === mine ? merged : mergeTabChanges(mine, current, merged));
+      }
+    }).catch(error => {
+      console.error('Error saving break records:', error);
+    });
+  }, [records, enabled, setRecords]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== BREAK_RECORDS_STORAGE_KEY || !event.newValue) return;
+
+      let theirs: BreakRecord[];
+      try {
+        theirs = parseStoredBreakRecords(event.newValue).records;
+      } catch (error) {
+        console.error('Error reading break records saved by another tab:', error);
+        return;
+      }
+
+      // Unsaved changes in this tab are kept; the save effect then writes them on top
+      const mine = recordsRef.current;
+      const next = hasLocalChanges(baseRef.current, mine) ? mergeTabChanges(baseRef.current, mine, theirs) : theirs;
+      baseRef.current = theirs;
+      recordsRef.current = next;
+      setRecords(current => current === mine ? next : mergeTabChanges(mine, current, next));
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [enabled, setRecords]);
+}
@@ -0,0 +1,27 @@
+import { useCallback, useState } from 'react';
+import { DEFAULT_NOTIFICATION_SETTINGS, NotificationSettings } from '@/lib/notifications';
+
+export const NOTIFICATION_SETTINGS_STORAGE_KEY = 'breakTimeTrackerNotificationSettings';
+
+export const loadNotificationSettings = (): NotificationSettings => {
+  const savedSettings = localStorage.getItem(NOTIFICATION_SETTINGS_STORAGE_KEY);
+  if (!savedSettings) return DEFAULT_NOTIFICATION_SETTINGS;
+
+  try {
+    return { ...DEFAULT_NOTIFICATION_SETTINGS, ...JSON.parse(savedSettings) };
+  } catch (error) {
+    console.error('Error loading notification settings:', error);
+    return DEFAULT_NOTIFICATION_SETTINGS;
+  }
+};
+
+export function useNotificationSettings() {
+  const [settings, setSettings] = useState<NotificationSettings>(loadNotificationSettings);
+
+  const saveSettings = useCallback((nextSettings: NotificationSettings) => {
+    localStorage.setItem(NOTIFICATION_SETTINGS_STORAGE_KEY, JSON.stringify(nextSettings));
+    setSettings(nextSettings);
+  }, []);
+
+  return { settings, saveSettings };
+}
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Associate } from '@/lib/roster';
+import { fetchAssociates, saveAssociates as saveAssociateRows } from '@/lib/roster-api';
+
+export const ROSTER_STORAGE_KEY = 'breakTimeTrackerRoster';
+
+const loadCachedRoster = (): Associate[] => {
+  const savedRoster = localStorage.getItem(ROSTER_STORAGE_KEY);
+  if (!savedRoster) return [];
+
+  try {
+    return JSON.parse(savedRoster) as Associate[];
+  } catch (error) {
+    console.error('Error loading cached roster:', error);
+    return [];
+  }
+};
+
+const sortByName = (associates: Associate[]) => {
+  return [...associates].sort((a, b) => a.displayName.localeCompare(b.displayName));
+};
+
+export function useRoster() {
+  const [associates, setAssociates] = useState<Associate[]>(loadCachedRoster);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchAssociates()
+      .then(remoteAssociates => {
+        if (!cancelled) setAssociates(remoteAssociates);
+      })
+      .catch(error => {
+        console.error('Error loading roster:', error);
+        toast.error('Could not load the roster', {
+          description: 'Showing the copy saved on this device.',
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Keep a local copy so the picker works while offline
+  useEffect(() => {
+    localStorage.setItem(ROSTER_STORAGE_KEY, JSON.stringify(associates));
+  }, [associates]);
+
+  const saveAssociates = useCallback(async (changed: Associate[]) => {
+    await saveAssociateRows(changed);
+    setAssociates(prev => {
+      const changedIds = new Set(changed.map(associate => associate.id));
+      return sortByName([...prev.filter(associate => !changedIds.has(associate.id)), ...changed]);
+    });
+  }, []);
+
+  const saveAssociate = useCallback((associate: Associate) => saveAssociates([associate]), [saveAssociates]);
+
+  return { associates, isLoading, saveAssociate, saveAssociates };
+}
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+
+// Timers in a worker keep their rate when the tab is in the background,
+// where the page's own setInterval can be slowed to once a minute
+const TICKER_WORKER_SOURCE = `
+  let timer;
+  self.onmessage = (event) => {
+    clearInterval(timer);
+    timer = setInterval(() => self.postMessage(Date.now()), event.data);
+  };
+`;
+
+export function useTicker(intervalMs: number) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const tick = () => setNow(new Date());
+
+    if (typeof Worker === 'undefined') {
+      const timer = setInterval(tick, intervalMs);
+      return () => clearInterval(timer);
+    }
+
+    const workerUrl = URL.createObjectURL(new Blob([TICKER_WORKER_SOURCE], { type: 'text/javascript' }));
+    const worker = new Worker(workerUrl);
+    worker.onmessage = tick;
+    worker.postMessage(intervalMs);
+
+    return () => {
+      worker.terminate();
+      URL.revokeObjectURL(workerUrl);
+    };
+  }, [intervalMs]);
+
+  return now;
+}
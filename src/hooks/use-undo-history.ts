@@ -0,0 +1,146 @@
+import { Dispatch, SetStateAction, useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { BreakRecord } from '@/lib/break-records';
+import { toBreakRecordRow } from '@/lib/break-records-api';
+import { SyncOperationInput } from '@/lib/sync-queue';
+import {
+  HistoryDirection,
+  HistoryEntry,
+  UNDO_HISTORY_LIMIT,
+  applyTargetStates,
+  createHistoryEntry,
+  getTargetStates,
+  isCorrection,
+  isStale,
+} from '@/lib/undo-history';
+
+interface UseUndoHistoryOptions {
+  records: BreakRecord[];
+  setRecords: Dispatch<SetStateAction<BreakRecord[]>>;
+  enqueueSync: (operation: SyncOperationInput) => void;
+  // Whether the signed-in user may delete breaks or reopen ended ones, e.g. by undoing a start or an end
+  canCorrect: boolean;
+}
+
+const isTextField = (target: EventTarget | null) => {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+};
+
+/**
+ * Undo and redo for break actions at this station. Each entry keeps the affected records as they
+ * were before and after the action, so undoing or redoing writes those copies back and shares
+ * them with the other stations. An entry whose records have changed again since is dropped
+ * instead, so it cannot overwrite that later change.
+ */
+export function useUndoHistory({ records, setRecords, enqueueSync, canCorrect }: UseUndoHistoryOptions) {
+  const [undoStack, setUndoStack] = useState<HistoryEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<HistoryEntry[]>([]);
+  // Read by the toast actions and keyboard shortcuts, which outlive the render that created them
+  const undoStackRef = useRef(undoStack);
+  const redoStackRef = useRef(redoStack);
+  const recordsRef = useRef(records);
+  recordsRef.current = records;
+
+  const updateStacks = useCallback((undo: HistoryEntry[], redo: HistoryEntry[]) => {
+    undoStackRef.current = undo;
+    redoStackRef.current = redo;
+    setUndoStack(undo);
+    setRedoStack(redo);
+  }, []);
+
+  // Leads may not remove breaks or reopen ended ones, so those steps are never offered to them
+  const isAllowed = useCallback((entry: HistoryEntry, direction: HistoryDirection) => {
+    return canCorrect || !isCorrection(entry, direction);
+  }, [canCorrect]);
+
+  // Returns false, leaving the records alone, when the records have moved on since the entry
+  const applyEntry = useCallback((entry: HistoryEntry, direction: HistoryDirection) => {
+    if (isStale(entry, direction, recordsRef.current)) {
+      toast.error(`Cannot ${direction} "${entry.label}"`, {
+        description: 'The break was changed again since, here or at another station.',
+      });
+      const withoutEntry = (stack: HistoryEntry[]) => stack.filter(other => other.id !== entry.id);
+      updateStacks(withoutEntry(undoStackRef.current), withoutEntry(redoStackRef.current));
+      return false;
+    }
+    const targets = getTargetStates(entry, direction);
+    // Ahead of the render, so a second undo straight after this one checks against the result
+    recordsRef.current = applyTargetStates(recordsRef.current, targets);
+    setRecords(prev => applyTargetStates(prev, targets));
+
+    entry.changes.forEach(change => {
+      const target = direction === 'undo' ? change.before : change.after;
+      const associateName = (change.before ?? change.after).name;
+      enqueueSync(target
+        ? { type: 'restore', associateName, action: direction, row: toBreakRecordRow(target) }
+        : { type: 'delete', associateName, action: direction, recordId: change.id });
+    });
+    return true;
+  }, [setRecords, enqueueSync, updateStacks]);
+
+  // Returns the entry ID, for an "Undo" action on the toast that reports the change
+  const record = useCallback((label: string, before: BreakRecord[], after: BreakRecord[]) => {
+    const entry = createHistoryEntry(label, before, after);
+    updateStacks([...undoStackRef.current, entry].slice(-UNDO_HISTORY_LIMIT), []);
+    return entry.id;
+  }, [updateStacks]);
+
+  const undo = useCallback(() => {
+    const entry = undoStackRef.current[undoStackRef.current.length - 1];
+    if (!entry || !isAllowed(entry, 'undo') || !applyEntry(entry, 'undo')) return;
+    updateStacks(undoStackRef.current.slice(0, -1), [...redoStackRef.current, entry]);
+    toast.success('Undone', { description: entry.label });
+  }, [isAllowed, applyEntry, updateStacks]);
+
+  const redo = useCallback(() => {
+    const entry = redoStackRef.current[redoStackRef.current.length - 1];
+    if (!entry || !isAllowed(entry, 'redo') || !applyEntry(entry, 'redo')) return;
+    updateStacks([...undoStackRef.current, entry], redoStackRef.current.slice(0, -1));
+    toast.success('Redone', { description: entry.label });
+  }, [isAllowed, applyEntry, updateStacks]);
+
+  // Whether a toast reporting the change should offer to undo it
+  const canUndoEntry = useCallback((entryId: string) => {
+    const entry = undoStackRef.current.find(other => other.id === entryId);
+    return !!entry && isAllowed(entry, 'undo');
+  }, [isAllowed]);
+
+  // Toast actions can only undo the latest change; older ones go through the Undo button in order
+  const undoEntry = useCallback((entryId: string) => {
+    const latest = undoStackRef.current[undoStackRef.current.length - 1];
+    if (latest?.id === entryId) {
+      undo();
+    } else if (undoStackRef.current.some(entry => entry.id === entryId)) {
+      toast.error('Undo the later changes first', { description: 'Use the Undo button to step back in order.' });
+    }
+  }, [undo]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on a Mac); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z' || isTextField(event.target)) return;
+      event.preventDefault();
+      if (event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    record,
+    undo,
+    redo,
+    undoEntry,
+    canUndoEntry,
+    undoLabel: undoStack[undoStack.length - 1]?.label,
+    redoLabel: redoStack[redoStack.length - 1]?.label,
+    canUndo: undoStack.length > 0 && isAllowed(undoStack[undoStack.length - 1], 'undo'),
+    canRedo: redoStack.length > 0 && isAllowed(redoStack[redoStack.length - 1], 'redo'),
+  };
+}
@@ -9,13 +9,197 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
-      [_ in never]: never
+      associates: {
+        Row: {
+          active: boolean
+          badge_number: string
+          created_at: string
+          display_name: string
+          id: string
+          shift: string
+          team: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          badge_number?: string
+          created_at?: string
+          display_name: string
+          id?: string
+          shift?: string
+          team?: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          badge_number?: string
+          created_at?: string
+          display_name?: string
+          id?: string
+          shift?: string
+          team?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      break_audit_log: {
+        Row: {
+          action: string
+          actor: string
+          actor_id: string | null
+          after: Json | null
+          associate_name: string
+          before: Json | null
+          created_at: string
+          id: string
+          occurred_at: string
+          record_id: string
+          station_id: string
+          station_name: string
+        }
+        Insert: {
+          action: string
+          actor: string
+          actor_id?: string | null
+          after?: Json | null
+          associate_name?: string
+          before?: Json | null
+          created_at?: string
+          id?: string
+          occurred_at?: string
+          record_id: string
+          station_id: string
+          station_name: string
+        }
+        Update: {
+          action?: string
+          actor?: string
+          actor_id?: string | null
+          after?: Json | null
+          associate_name?: string
+          before?: Json | null
+          created_at?: string
+          id?: string
+          occurred_at?: string
+          record_id?: string
+          station_id?: string
+          station_name?: string
+        }
+        Relationships: []
+      }
+      break_policy: {
+        Row: {
+          created_at: string
+          id: boolean
+          policy: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: boolean
+          policy: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: boolean
+          policy?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      break_records: {
+        Row: {
+          adjusted_at: string | null
+          adjusted_by: string | null
+          adjustment_reason: string | null
+          archived_at: string | null
+          associate_id: string | null
+          associate_name: string
+          break_type: string
+          created_at: string
+          end_time: string | null
+          id: string
+          reason: string
+          start_time: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          adjusted_at?: string | null
+          adjusted_by?: string | null
+          adjustment_reason?: string | null
+          archived_at?: string | null
+          associate_id?: string | null
+          associate_name: string
+          break_type: string
+          created_at?: string
+          end_time?: string | null
+          id: string
+          reason?: string
+          start_time: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          adjusted_at?: string | null
+          adjusted_by?: string | null
+          adjustment_reason?: string | null
+          archived_at?: string | null
+          associate_id?: string | null
+          associate_name?: string
+          break_type?: string
+          created_at?: string
+          end_time?: string | null
+          id?: string
+          reason?: string
+          start_time?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "break_records_associate_id_fkey"
+            columns: ["associate_id"]
+            isOneToOne: false
+            referencedRelation: "associates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          display_name: string
+          role: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          display_name?: string
+          role: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          display_name?: string
+          role?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      has_role: {
+        Args: { required: string }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
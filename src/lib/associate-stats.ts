@@ -0,0 +1,59 @@
+import { subDays } from 'date-fns';
+import { BreakRecord } from '@/lib/break-records';
+import { getRecordDurationMinutes } from '@/lib/break-time';
+
+export const COMPLIANCE_WINDOW_DAYS = 30;
+
+export interface AssociateBreakStats {
+  totalBreaks: number;
+  averageMinutes: number | null;
+  longestMinutes: number | null;
+  overtimeCount: number;
+  unclosedCount: number;
+}
+
+export interface ReasonCount {
+  reason: string;
+  count: number;
+}
+
+export const getAssociateBreakStats = (records: BreakRecord[]): AssociateBreakStats => {
+  const durations = records
+    .map(getRecordDurationMinutes)
+    .filter((minutes): minutes is number => minutes !== null);
+
+  return {
+    totalBreaks: records.length,
+    averageMinutes: durations.length ? durations.reduce((sum, minutes) => sum + minutes, 0) / durations.length : null,
+    longestMinutes: durations.length ? Math.max(...durations) : null,
+    overtimeCount: records.filter(record => record.status === 'overtime').length,
+    unclosedCount: records.filter(record => record.status === 'unclosed').length,
+  };
+};
+
+/**
+ * Share of ended breaks in the last `days` days that stayed out of overtime, in percent.
+ * Returns null when there are no ended breaks in the window.
+ */
+export const getComplianceRate = (records: BreakRecord[], now: Date, days = COMPLIANCE_WINDOW_DAYS) => {
+  const windowStart = subDays(now, days);
+  const ended = records.filter(record => record.endTime && record.startTime >= windowStart);
+  if (ended.length === 0) return null;
+
+  const compliant = ended.filter(record => record.status !== 'overtime').length;
+  return Math.round((compliant / ended.length) * 100);
+};
+
+// Groups reasons typed at different times with different capitalisation or spacing
+export const getReasonCounts = (records: BreakRecord[]): ReasonCount[] => {
+  const counts = new Map<string, ReasonCount>();
+  records.forEach(record => {
+    const reason = record.reason.trim();
+    if (!reason) return;
+    const key = reason.toLowerCase().replace(/\s+/g, ' ');
+    const existing = counts.get(key);
+    counts.set(key, { reason: existing?.reason ?? reason, count: (existing?.count ?? 0) + 1 });
+  });
+
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.reason.localeCompare(b.reason));
+};
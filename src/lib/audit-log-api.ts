@@ -0,0 +1,51 @@
+import { endOfDay, startOfDay } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { AuditAction, AuditEntry, AuditSnapshot } from '@/lib/audit-log';
+import { DayRange } from '@/lib/date-range';
+
+type AuditLogRow = Tables<'break_audit_log'>;
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+export const fromAuditLogRow = (row: AuditLogRow): AuditEntry => ({
+  id: row.id,
+  occurredAt: row.occurred_at,
+  recordedAt: row.created_at,
+  actor: row.actor,
+  stationId: row.station_id,
+  stationName: row.station_name,
+  action: row.action as AuditAction,
+  recordId: row.record_id,
+  associateName: row.associate_name,
+  before: row.before as AuditSnapshot | null,
+  after: row.after as AuditSnapshot | null,
+});
+
+/**
+ * Every entry in the date range (or the whole log), newest first, read a page at a time so
+ * searches and exports are never cut off at the server's row limit.
+ */
+export const fetchAuditLog = async ({ range, action }: { range: DayRange | null; action: AuditAction | null }) => {
+  const rows: AuditLogRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase.from('break_audit_log').select('*');
+    if (range) {
+      query = query
+        .gte('occurred_at', startOfDay(range.from).toISOString())
+        .lte('occurred_at', endOfDay(range.to).toISOString());
+    }
+    if (action) query = query.eq('action', action);
+
+    const { data, error } = await query
+      .order('occurred_at', { ascending: false })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) break;
+  }
+  return rows.map(fromAuditLogRow);
+};
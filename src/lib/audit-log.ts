@@ -0,0 +1,126 @@
+import { endOfDay, isSameDay, startOfDay } from 'date-fns';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import { toCsvField } from '@/lib/break-export';
+import { BreakPolicy, getBreakTypePolicy } from '@/lib/break-policy';
+import { DayRange } from '@/lib/date-range';
+
+export type AuditAction = 'start' | 'end' | 'reason' | 'adjust' | 'delete' | 'close_shift' | 'import' | 'undo' | 'redo';
+
+// A break record as it was saved, in the shared table's row format
+export type AuditSnapshot = TablesInsert<'break_records'>;
+
+export interface AuditEntry {
+  id: string;
+  // ISO timestamp of when the change was made at the station, as the station reported it
+  occurredAt: string;
+  // ISO timestamp of when the server recorded the change
+  recordedAt: string;
+  // The signed-in user, as recorded by the database
+  actor: string;
+  // As reported by the station that made the change
+  stationId: string;
+  stationName: string;
+  action: AuditAction;
+  recordId: string;
+  associateName: string;
+  // null when the record did not exist before (or after) the change
+  before: AuditSnapshot | null;
+  after: AuditSnapshot | null;
+}
+
+export interface AuditFieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  start: 'Start break',
+  end: 'End break',
+  reason: 'Edit reason',
+  adjust: 'Correct times',
+  delete: 'Delete',
+  close_shift: 'Close shift',
+  import: 'Import',
+  undo: 'Undo',
+  redo: 'Redo',
+};
+
+const formatTimestamp = (value: string | null | undefined) => value ? new Date(value).toLocaleString('en-US') : '';
+
+const AUDIT_FIELDS: { key: keyof AuditSnapshot; label: string; format: (value: unknown, policy: BreakPolicy) => string }[] = [
+  { key: 'associate_name', label: 'Associate', format: value => String(value ?? '') },
+  { key: 'break_type', label: 'Break type', format: (value, policy) => getBreakTypePolicy(policy, String(value)).name },
+  { key: 'start_time', label: 'Start', format: value => formatTimestamp(value as string) },
+  { key: 'end_time', label: 'End', format: value => formatTimestamp(value as string) },
+  { key: 'reason', label: 'Reason', format: value => String(value ?? '') },
+  { key: 'status', label: 'Status', format: value => String(value ?? '') },
+  { key: 'archived_at', label: 'Archived', format: value => formatTimestamp(value as string) },
+  { key: 'adjustment_reason', label: 'Correction reason', format: value => String(value ?? '') },
+];
+
+// The fields that differ between the before and after copies; every field for a created or removed record
+export const getAuditFieldChanges = (entry: AuditEntry, policy: BreakPolicy): AuditFieldChange[] => {
+  return AUDIT_FIELDS.flatMap(({ key, label, format }) => {
+    const before = entry.before ? format(entry.before[key], policy) : '';
+    const after = entry.after ? format(entry.after[key], policy) : '';
+    return before === after ? [] : [{ field: label, before, after }];
+  });
+};
+
+export const describeAuditChanges = (entry: AuditEntry, policy: BreakPolicy) => {
+  return getAuditFieldChanges(entry, policy)
+    .map(change => `${change.field}: ${change.before || '(none)'} → ${change.after || '(none)'}`)
+    .join('; ');
+};
+
+export const filterAuditEntries = (
+  entries: AuditEntry[],
+  { search, action, range }: { search: string; action: AuditAction | null; range: DayRange | null },
+  policy: BreakPolicy
+) => {
+  const terms = search.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  return entries.filter(entry => {
+    const occurredAt = new Date(entry.occurredAt);
+    if (action && entry.action !== action) return false;
+    if (range && (occurredAt < startOfDay(range.from) || occurredAt > endOfDay(range.to))) return false;
+    if (terms.length === 0) return true;
+
+    const text = [
+      entry.actor,
+      entry.stationName,
+      entry.associateName,
+      entry.recordId,
+      AUDIT_ACTION_LABELS[entry.action],
+      describeAuditChanges(entry, policy),
+    ].join(' ').toLowerCase();
+    return terms.every(term => text.includes(term));
+  });
+};
+
+// Takes an entry's occurredAt or recordedAt
+export const formatAuditTime = (timestamp: string, now: Date) => {
+  const time = new Date(timestamp);
+  return isSameDay(time, now) ? time.toLocaleTimeString('en-US') : time.toLocaleString('en-US');
+};
+
+const AUDIT_CSV_HEADERS = ['Time', 'Recorded At', 'Actor', 'Station', 'Action', 'Associate', 'Record ID', 'Changes', 'Before', 'After'];
+
+export const toAuditCsv = (entries: AuditEntry[], policy: BreakPolicy) => {
+  const lines = [
+    AUDIT_CSV_HEADERS.map(toCsvField).join(','),
+    ...entries.map(entry => [
+      entry.occurredAt,
+      entry.recordedAt,
+      entry.actor,
+      entry.stationName,
+      AUDIT_ACTION_LABELS[entry.action],
+      entry.associateName,
+      entry.recordId,
+      describeAuditChanges(entry, policy),
+      entry.before ? JSON.stringify(entry.before) : null,
+      entry.after ? JSON.stringify(entry.after) : null,
+    ].map(toCsvField).join(',')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+};
@@ -0,0 +1,32 @@
+import { supabase } from '@/integrations/supabase/client';
+import { isUserRole, UserProfile } from '@/lib/user-roles';
+
+export const signInWithPassword = async (email: string, password: string) => {
+  const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+  if (error) throw error;
+};
+
+export const signOut = async () => {
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+};
+
+// null when the user has signed in but has not been given a role yet
+export const fetchUserProfile = async (userId: string, email: string): Promise<UserProfile | null> => {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || !isUserRole(data.role)) return null;
+  return { userId, email, displayName: data.display_name, role: data.role };
+};
+
+// False once the session has expired and could not be refreshed, e.g. after a long time offline
+export const hasValidSession = async () => {
+  const { data, error } = await supabase.auth.getSession();
+  if (error || !data.session) return false;
+  return !data.session.expires_at || data.session.expires_at * 1000 > Date.now();
+};
@@ -0,0 +1,93 @@
+import type { TablesUpdate } from '@/integrations/supabase/types';
+import { BreakPolicy, getBreakTypePolicy, getDurationLevel } from '@/lib/break-policy';
+import { BreakRecord } from '@/lib/break-records';
+import { toBreakRecordRow } from '@/lib/break-records-api';
+import { normalizeName } from '@/lib/roster';
+
+export interface BreakAdjustmentInput {
+  startTime: Date;
+  // Left empty for a break that has not been ended
+  endTime?: Date;
+  reason: string;
+}
+
+const isSameAssociate = (a: BreakRecord, b: BreakRecord) => {
+  if (a.associateId && b.associateId) return a.associateId === b.associateId;
+  return normalizeName(a.name) === normalizeName(b.name);
+};
+
+// Breaks still running count up to now; unclosed ones up to when their shift was closed
+const getEffectiveEnd = (record: Pick<BreakRecord, 'endTime' | 'archivedAt'>, now: Date) => {
+  return record.endTime ?? record.archivedAt ?? now;
+};
+
+export const validateBreakAdjustment = (
+  record: BreakRecord,
+  { startTime, endTime, reason }: BreakAdjustmentInput,
+  records: BreakRecord[],
+  now = new Date()
+): string | null => {
+  if (Number.isNaN(startTime.getTime())) {
+    return 'Enter a valid start time';
+  }
+  if (endTime && Number.isNaN(endTime.getTime())) {
+    return 'Enter a valid end time';
+  }
+  if (!endTime && record.endTime) {
+    return 'An ended break needs an end time';
+  }
+  if (startTime > now || (endTime && endTime > now)) {
+    return 'Break times cannot be in the future';
+  }
+  if (endTime && endTime <= startTime) {
+    return 'End time must be after the start time';
+  }
+  if (!reason.trim()) {
+    return 'Give a reason for the correction';
+  }
+
+  const end = getEffectiveEnd({ endTime, archivedAt: record.archivedAt }, now);
+  const overlapping = records.find(other =>
+    other.id !== record.id &&
+    isSameAssociate(other, record) &&
+    other.startTime < end &&
+    startTime < getEffectiveEnd(other, now)
+  );
+  if (overlapping) {
+    return `Overlaps ${record.name}'s break starting ${overlapping.startTime.toLocaleString('en-US')}`;
+  }
+
+  return null;
+};
+
+/**
+ * The record with corrected times. An ended break's status is worked out again from the policy,
+ * so a correction can move it into or out of overtime.
+ */
+export const applyBreakAdjustment = (
+  record: BreakRecord,
+  { startTime, endTime, reason }: BreakAdjustmentInput,
+  policy: BreakPolicy,
+  adjustedBy: string,
+  now = new Date()
+): BreakRecord => {
+  let status = record.status;
+  if (endTime) {
+    const level = getDurationLevel(endTime.getTime() - startTime.getTime(), getBreakTypePolicy(policy, record.breakType));
+    status = level === 'overtime' ? 'overtime' : 'completed';
+  }
+
+  return {
+    ...record,
+    startTime,
+    endTime,
+    status,
+    adjustment: { reason: reason.trim(), adjustedAt: now, adjustedBy },
+  };
+};
+
+// The columns a correction changes, for updating the shared row
+export const toBreakAdjustmentRow = (record: BreakRecord): TablesUpdate<'break_records'> => {
+  const { start_time, end_time, status, adjusted_at, adjusted_by, adjustment_reason } = toBreakRecordRow(record);
+  return { start_time, end_time, status, adjusted_at, adjusted_by, adjustment_reason };
+};
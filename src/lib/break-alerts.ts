@@ -0,0 +1,75 @@
+import { BreakPolicy, getBreakTypePolicy, getDurationLevel, getWarningMinutes } from '@/lib/break-policy';
+import { BreakRecord } from '@/lib/break-records';
+
+export type AlertLevel = 'warning' | 'overtime';
+
+export interface BreakAlert {
+  // One alert per break and level, so the ID is derived from both
+  id: string;
+  recordId: string;
+  associateName: string;
+  breakTypeName: string;
+  level: AlertLevel;
+  thresholdMinutes: number;
+  raisedAt: string;
+  acknowledgedAt?: string;
+}
+
+export const getAlertId = (recordId: string, level: AlertLevel) => `${recordId}:${level}`;
+
+/**
+ * Returns alerts for active breaks that have crossed a threshold without an alert yet.
+ * A break that jumps straight past overtime raises only the overtime alert.
+ */
+export const detectThresholdCrossings = (
+  records: BreakRecord[],
+  policy: BreakPolicy,
+  now: Date,
+  existingAlertIds: Set<string>
+): BreakAlert[] => {
+  const alerts: BreakAlert[] = [];
+
+  records
+    .filter(record => record.status === 'active')
+    .forEach(record => {
+      const breakType = getBreakTypePolicy(policy, record.breakType);
+      const level = getDurationLevel(now.getTime() - record.startTime.getTime(), breakType);
+      if (level === 'within') return;
+
+      const id = getAlertId(record.id, level);
+      if (existingAlertIds.has(id)) return;
+      if (level === 'warning' && existingAlertIds.has(getAlertId(record.id, 'overtime'))) return;
+
+      alerts.push({
+        id,
+        recordId: record.id,
+        associateName: record.name,
+        breakTypeName: breakType.name,
+        level,
+        thresholdMinutes: level === 'overtime' ? breakType.overtimeMinutes : getWarningMinutes(breakType),
+        raisedAt: now.toISOString(),
+      });
+    });
+
+  return alerts;
+};
+
+// Which of two copies of an alert to keep: acknowledged first, then the earliest
+const isPreferred = (alert: BreakAlert, existing: BreakAlert) => {
+  if (!!alert.acknowledgedAt !== !!existing.acknowledgedAt) return !!alert.acknowledgedAt;
+  if (alert.acknowledgedAt !== existing.acknowledgedAt) return alert.acknowledgedAt < existing.acknowledgedAt;
+  return alert.raisedAt < existing.raisedAt;
+};
+
+/**
+ * Combines the alerts saved by two tabs. An alert acknowledged in either tab stays acknowledged,
+ * and the result does not depend on which tab merges, so the tabs settle on the same list.
+ */
+export const mergeAlerts = (mine: BreakAlert[], theirs: BreakAlert[]): BreakAlert[] => {
+  const byId = new Map<string, BreakAlert>();
+  [...mine, ...theirs].forEach(alert => {
+    const existing = byId.get(alert.id);
+    if (!existing || isPreferred(alert, existing)) byId.set(alert.id, alert);
+  });
+  return [...byId.values()].sort((a, b) => b.raisedAt.localeCompare(a.raisedAt) || a.id.localeCompare(b.id));
+};
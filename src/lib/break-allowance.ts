@@ -0,0 +1,70 @@
+import { BreakPolicy, BreakTypePolicy, getBreakTypePolicy } from '@/lib/break-policy';
+import { BreakRecord } from '@/lib/break-records';
+import { toMinutesOfDay } from '@/lib/break-time';
+import { Associate, isRecordForAssociate } from '@/lib/roster';
+
+export interface ShiftWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Returns the shift containing `at`: from the most recent shift start up to the next one.
+ */
+export const getShiftWindow = (shiftStartTimes: string[], at: Date): ShiftWindow => {
+  const startMinutes = (shiftStartTimes.length ? shiftStartTimes : ['00:00']).map(toMinutesOfDay);
+
+  const candidates: Date[] = [];
+  for (const dayOffset of [-1, 0, 1]) {
+    for (const minutes of startMinutes) {
+      const candidate = new Date(at);
+      candidate.setDate(candidate.getDate() + dayOffset);
+      candidate.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+      candidates.push(candidate);
+    }
+  }
+  candidates.sort((a, b) => a.getTime() - b.getTime());
+
+  const start = [...candidates].reverse().find(candidate => candidate <= at);
+  const end = candidates.find(candidate => candidate > at);
+  return { start, end };
+};
+
+export const countBreaksInShift = (
+  records: BreakRecord[],
+  associate: Pick<Associate, 'id' | 'displayName'>,
+  breakType: BreakTypePolicy,
+  policy: BreakPolicy,
+  window: ShiftWindow
+) => {
+  return records.filter(record =>
+    isRecordForAssociate(record, associate) &&
+    getBreakTypePolicy(policy, record.breakType).id === breakType.id &&
+    record.startTime >= window.start &&
+    record.startTime < window.end
+  ).length;
+};
+
+/**
+ * Checks whether the associate may start another break of the given type in the current shift.
+ * Returns a message naming the exhausted allowance, or null when the break is allowed.
+ */
+export const checkBreakAllowance = (
+  records: BreakRecord[],
+  associate: Pick<Associate, 'id' | 'displayName'>,
+  breakTypeId: string,
+  policy: BreakPolicy,
+  now: Date
+): string | null => {
+  const breakType = getBreakTypePolicy(policy, breakTypeId);
+  if (breakType.allowancePerShift == null) return null;
+
+  const window = getShiftWindow(policy.shiftStartTimes, now);
+  const used = countBreaksInShift(records, associate, breakType, policy, window);
+
+  if (used >= breakType.allowancePerShift) {
+    return `${breakType.name} allowance used up: ${associate.displayName} has taken ${used} of ${breakType.allowancePerShift} this shift.`;
+  }
+
+  return null;
+};
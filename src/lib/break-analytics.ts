@@ -0,0 +1,117 @@
+import { BreakPolicy, getBreakTypePolicy } from '@/lib/break-policy';
+import { BreakRecord } from '@/lib/break-records';
+import { getRecordDurationMinutes } from '@/lib/break-time';
+import { Associate, isRecordForAssociate } from '@/lib/roster';
+
+export const NO_TEAM = 'No team';
+
+export interface HourlyBreaks {
+  hour: string;
+  breaks: number;
+}
+
+export interface BreakTypeAverage {
+  breakType: string;
+  averageMinutes: number;
+  allowedMinutes: number;
+}
+
+export interface TeamOvertimeRate {
+  team: string;
+  overtimeRate: number;
+  breaks: number;
+}
+
+export interface DurationBucket {
+  bucket: string;
+  breaks: number;
+  overLimit: boolean;
+}
+
+// Upper bound of each bucket as a share of the allowed duration, in percent
+const DURATION_BUCKETS = [
+  { label: 'Under 50%', max: 50 },
+  { label: '50–75%', max: 75 },
+  { label: '75–100%', max: 100 },
+  { label: '100–125%', max: 125 },
+  { label: '125–150%', max: 150 },
+  { label: 'Over 150%', max: Infinity },
+];
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export const getRecordTeam = (record: BreakRecord, associates: Associate[]) => {
+  const associate = associates.find(candidate => isRecordForAssociate(record, candidate));
+  return associate?.team.trim() || NO_TEAM;
+};
+
+export const getBreaksPerHour = (records: BreakRecord[]): HourlyBreaks[] => {
+  const counts = new Array(24).fill(0);
+  records.forEach(record => {
+    counts[record.startTime.getHours()] += 1;
+  });
+  return counts.map((breaks, hour) => ({ hour: `${String(hour).padStart(2, '0')}:00`, breaks }));
+};
+
+export const getAverageDurationByType = (records: BreakRecord[], policy: BreakPolicy): BreakTypeAverage[] => {
+  const totals = new Map<string, { minutes: number; count: number }>();
+  records.forEach(record => {
+    const minutes = getRecordDurationMinutes(record);
+    if (minutes === null) return;
+    const total = totals.get(record.breakType) ?? { minutes: 0, count: 0 };
+    totals.set(record.breakType, { minutes: total.minutes + minutes, count: total.count + 1 });
+  });
+
+  return [...totals.entries()].map(([breakTypeId, total]) => {
+    const breakType = getBreakTypePolicy(policy, breakTypeId);
+    return {
+      breakType: breakType.name,
+      averageMinutes: roundTo(total.minutes / total.count, 1),
+      allowedMinutes: breakType.allowedMinutes,
+    };
+  });
+};
+
+export const getOvertimeRateByTeam = (records: BreakRecord[], associates: Associate[]): TeamOvertimeRate[] => {
+  const totals = new Map<string, { overtime: number; count: number }>();
+  records.forEach(record => {
+    if (!record.endTime) return;
+    const team = getRecordTeam(record, associates);
+    const total = totals.get(team) ?? { overtime: 0, count: 0 };
+    totals.set(team, {
+      overtime: total.overtime + (record.status === 'overtime' ? 1 : 0),
+      count: total.count + 1,
+    });
+  });
+
+  return [...totals.entries()]
+    .map(([team, total]) => ({
+      team,
+      overtimeRate: roundTo((total.overtime / total.count) * 100, 1),
+      breaks: total.count,
+    }))
+    .sort((a, b) => a.team.localeCompare(b.team));
+};
+
+/**
+ * Groups ended breaks by how long they ran compared with their type's allowed duration.
+ */
+export const getDurationDistribution = (records: BreakRecord[], policy: BreakPolicy): DurationBucket[] => {
+  const counts = new Array(DURATION_BUCKETS.length).fill(0);
+  records.forEach(record => {
+    const minutes = getRecordDurationMinutes(record);
+    if (minutes === null) return;
+    const percent = (minutes / getBreakTypePolicy(policy, record.breakType).allowedMinutes) * 100;
+    const index = DURATION_BUCKETS.findIndex(bucket => percent <= bucket.max);
+    counts[index] += 1;
+  });
+
+  return DURATION_BUCKETS.map((bucket, index) => ({
+    bucket: bucket.label,
+    breaks: counts[index],
+    overLimit: bucket.max > 100,
+  }));
+};
@@ -0,0 +1,208 @@
+import { format } from 'date-fns';
+import { getRecordTeam } from '@/lib/break-analytics';
+import { BreakPolicy, getBreakTypePolicy } from '@/lib/break-policy';
+import { BreakRecord, BreakStatus, formatDate, formatTime } from '@/lib/break-records';
+import { DayRange, isRecordInRange } from '@/lib/date-range';
+import { Associate } from '@/lib/roster';
+import { isOnBoard } from '@/lib/shift-rollover';
+
+export type ExportFormat = 'xlsx' | 'csv' | 'json' | 'print';
+
+export type ExportColumnId =
+  | 'associateName'
+  | 'team'
+  | 'breakType'
+  | 'date'
+  | 'start'
+  | 'end'
+  | 'durationMinutes'
+  | 'allowedMinutes'
+  | 'reason'
+  | 'status'
+  | 'adjusted'
+  | 'adjustmentReason';
+
+export interface ExportContext {
+  policy: BreakPolicy;
+  associates: Associate[];
+  now: Date;
+}
+
+type ExportValue = string | number | null;
+
+interface ExportColumn {
+  id: ExportColumnId;
+  label: string;
+  // Machine-readable value used by CSV and JSON
+  value: (record: BreakRecord, context: ExportContext) => ExportValue;
+  // Human-readable value used by the printable sheet
+  display: (record: BreakRecord, context: ExportContext) => string;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // null exports the current shift's board
+  range: DayRange | null;
+  columns: ExportColumnId[];
+  statuses: BreakStatus[];
+  breakTypeIds: string[];
+  // Empty means every team
+  team: string;
+}
+
+const durationMinutes = (record: BreakRecord, now: Date) => {
+  if (record.status === 'unclosed') return null;
+  const ms = (record.endTime ?? now).getTime() - record.startTime.getTime();
+  return Math.round((ms / 60000) * 100) / 100;
+};
+
+const formatLocalDateTime = (date: Date) => format(date, 'yyyy-MM-dd HH:mm:ss');
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  {
+    id: 'associateName',
+    label: 'Associate Name',
+    value: record => record.name,
+    display: record => record.name,
+  },
+  {
+    id: 'team',
+    label: 'Team',
+    value: (record, { associates }) => getRecordTeam(record, associates),
+    display: (record, { associates }) => getRecordTeam(record, associates),
+  },
+  {
+    id: 'breakType',
+    label: 'Break Type',
+    value: (record, { policy }) => getBreakTypePolicy(policy, record.breakType).name,
+    display: (record, { policy }) => getBreakTypePolicy(policy, record.breakType).name,
+  },
+  {
+    id: 'date',
+    label: 'Date',
+    value: record => format(record.startTime, 'yyyy-MM-dd'),
+    display: record => formatDate(record.startTime),
+  },
+  {
+    id: 'start',
+    label: 'Break Start',
+    value: record => formatLocalDateTime(record.startTime),
+    display: record => formatTime(record.startTime),
+  },
+  {
+    id: 'end',
+    label: 'Break End',
+    value: record => record.endTime ? formatLocalDateTime(record.endTime) : null,
+    display: record => record.endTime ? formatTime(record.endTime) : record.status === 'unclosed' ? 'Not ended' : 'Active',
+  },
+  {
+    id: 'durationMinutes',
+    label: 'Duration (min)',
+    value: (record, { now }) => durationMinutes(record, now),
+    display: (record, { now }) => durationMinutes(record, now)?.toFixed(1) ?? '—',
+  },
+  {
+    id: 'allowedMinutes',
+    label: 'Allowed (min)',
+    value: (record, { policy }) => getBreakTypePolicy(policy, record.breakType).allowedMinutes,
+    display: (record, { policy }) => String(getBreakTypePolicy(policy, record.breakType).allowedMinutes),
+  },
+  {
+    id: 'reason',
+    label: 'Reason',
+    value: record => record.reason,
+    display: record => record.reason,
+  },
+  {
+    id: 'status',
+    label: 'Status',
+    value: record => record.status,
+    display: record => record.status,
+  },
+  {
+    id: 'adjusted',
+    label: 'Adjusted',
+    value: record => record.adjustment ? 'Yes' : 'No',
+    display: record => record.adjustment ? 'Adjusted' : '',
+  },
+  {
+    id: 'adjustmentReason',
+    label: 'Correction Reason',
+    value: record => record.adjustment?.reason ?? null,
+    display: record => record.adjustment?.reason ?? '',
+  },
+];
+
+export const BREAK_STATUSES: BreakStatus[] = ['active', 'completed', 'overtime', 'unclosed'];
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumnId[] = [
+  'associateName',
+  'breakType',
+  'date',
+  'start',
+  'end',
+  'durationMinutes',
+  'reason',
+  'status',
+  'adjusted',
+  'adjustmentReason',
+];
+
+const getColumns = (ids: ExportColumnId[]) => EXPORT_COLUMNS.filter(column => ids.includes(column.id));
+
+export const filterRecordsForExport = (records: BreakRecord[], options: ExportOptions, context: ExportContext) => {
+  return records
+    .filter(record => options.range ? isRecordInRange(record, options.range, context.now) : isOnBoard(record))
+    .filter(record => options.statuses.includes(record.status))
+    .filter(record => options.breakTypeIds.includes(getBreakTypePolicy(context.policy, record.breakType).id))
+    .filter(record => !options.team || getRecordTeam(record, context.associates) === options.team)
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+};
+
+// Quote every field, and keep spreadsheet apps from running text that looks like a formula
+export const toCsvField = (value: ExportValue) => {
+  if (value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+export const toCsv = (records: BreakRecord[], columnIds: ExportColumnId[], context: ExportContext) => {
+  const columns = getColumns(columnIds);
+  const lines = [
+    columns.map(column => toCsvField(column.label)).join(','),
+    ...records.map(record => columns.map(column => toCsvField(column.value(record, context))).join(',')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+};
+
+export const toJson = (records: BreakRecord[], columnIds: ExportColumnId[], context: ExportContext) => {
+  const columns = getColumns(columnIds);
+  const rows = records.map(record => ({
+    id: record.id,
+    ...Object.fromEntries(columns.map(column => [column.id, column.value(record, context)])),
+    // Exact instants for systems that need them, regardless of the chosen columns
+    startTime: record.startTime.toISOString(),
+    endTime: record.endTime ? record.endTime.toISOString() : null,
+  }));
+  return JSON.stringify(rows, null, 2);
+};
+
+export const toPrintRows = (records: BreakRecord[], columnIds: ExportColumnId[], context: ExportContext) => {
+  const columns = getColumns(columnIds);
+  return {
+    headers: columns.map(column => column.label),
+    rows: records.map(record => columns.map(column => column.display(record, context))),
+  };
+};
+
+export const downloadTextFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx-js-style';
+import { planBreakImport, readBreakWorkbook } from '@/lib/break-import';
+import { DEFAULT_BREAK_POLICY } from '@/lib/break-policy';
+import { BreakRecord } from '@/lib/break-records';
+import { buildBreakReport } from '@/lib/break-report';
+import { Associate } from '@/lib/roster';
+
+// A time zone with daylight saving time, so the round trip crosses an offset change
+process.env.TZ = 'America/New_York';
+
+const associates: Associate[] = [
+  { id: 'a1', displayName: 'Ana Lopez', badgeNumber: '1001', team: 'Inbound', shift: 'Night', active: true },
+  { id: 'a2', displayName: 'Ben Ortiz', badgeNumber: '1002', team: 'Outbound', shift: 'Night', active: true },
+];
+
+const exportAndImport = async (records: BreakRecord[], existing: BreakRecord[] = []) => {
+  const workbook = buildBreakReport(records, DEFAULT_BREAK_POLICY, associates);
+  const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+  const file = new File([data], 'break_report.xlsx');
+
+  return planBreakImport(await readBreakWorkbook(file), {
+    policy: DEFAULT_BREAK_POLICY,
+    associates,
+    existing,
+    fallbackDate: null,
+    lastShiftClose: new Date(2026, 2, 7, 0, 0),
+    now: new Date(2026, 2, 9, 12, 0),
+  });
+};
+
+describe('break import', () => {
+  it('reads back the breaks in an exported report, across the start of daylight saving time', async () => {
+    const records: BreakRecord[] = [
+      {
+        id: 'a1-1',
+        associateId: 'a1',
+        name: 'Ana Lopez',
+        reason: 'Doctor',
+        breakType: 'medical',
+        startTime: new Date(2026, 2, 8, 1, 50, 0),
+        endTime: new Date(2026, 2, 8, 3, 5, 30),
+        status: 'completed',
+      },
+      {
+        id: 'a2-1',
+        associateId: 'a2',
+        name: 'Ben Ortiz',
+        reason: '',
+        breakType: 'rest',
+        startTime: new Date(2026, 2, 8, 9, 0, 0),
+        endTime: new Date(2026, 2, 8, 9, 20, 0),
+        status: 'overtime',
+      },
+    ];
+
+    const planned = await exportAndImport(records);
+
+    expect(planned.map(row => row.action)).toEqual(['add', 'add']);
+    planned.forEach((row, index) => {
+      const record = records[index];
+      expect(row.record).toEqual({ ...record, id: `${record.associateId}-${record.startTime.getTime()}`, archivedAt: undefined });
+    });
+  });
+
+  it('skips breaks the tracker already has', async () => {
+    const records: BreakRecord[] = [{
+      id: 'a1-1',
+      associateId: 'a1',
+      name: 'Ana Lopez',
+      reason: 'Doctor',
+      breakType: 'lunch',
+      startTime: new Date(2026, 10, 1, 1, 30, 0),
+      endTime: new Date(2026, 10, 1, 1, 55, 0),
+      status: 'completed',
+    }];
+
+    const planned = await exportAndImport(records, records);
+
+    expect(planned.map(row => row.action)).toEqual(['skip']);
+  });
+});
@@ -0,0 +1,244 @@
+import * as XLSX from 'xlsx-js-style';
+import { BreakPolicy, getBreakTypePolicy, getDurationLevel } from '@/lib/break-policy';
+import { BreakRecord } from '@/lib/break-records';
+import { Associate, isRecordForAssociate, normalizeName } from '@/lib/roster';
+
+type CellValue = string | number | null;
+
+export interface BreakWorkbook {
+  headers: string[];
+  rows: CellValue[][];
+  // Day taken from a break_times_YYYY-MM-DD file name, for exports that have no Date column
+  fileDate: Date | null;
+}
+
+export type BreakImportAction = 'add' | 'update' | 'skip' | 'error';
+
+export interface BreakImportRow {
+  rowNumber: number;
+  action: BreakImportAction;
+  note: string;
+  name: string;
+  startTime?: Date;
+  endTime?: Date;
+  record?: BreakRecord;
+  // The tracker's copy before the import filled in missing details
+  existing?: BreakRecord;
+}
+
+export interface BreakImportOptions {
+  policy: BreakPolicy;
+  associates: Associate[];
+  existing: BreakRecord[];
+  // Day to use when neither the file name nor the sheet says which day the breaks were on
+  fallbackDate: Date | null;
+  // Breaks that started before the last shift close go straight to history
+  lastShiftClose: Date;
+  now: Date;
+}
+
+const COLUMN_NAMES = {
+  name: 'associate name',
+  breakType: 'break type',
+  date: 'date',
+  start: 'break start',
+  end: 'break end',
+  reason: 'reason',
+} as const;
+
+type ImportColumn = keyof typeof COLUMN_NAMES;
+
+export const readBreakWorkbook = async (file: File): Promise<BreakWorkbook> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheetName = workbook.SheetNames.find(name => name.toLowerCase() === 'break times') ?? workbook.SheetNames[0];
+  const sheet = workbook.Sheets[sheetName];
+  const fileDate = parseFileDate(file.name);
+  if (!sheet) return { headers: [], rows: [], fileDate };
+
+  const [headerRow = [], ...rows] = XLSX.utils.sheet_to_json<CellValue[]>(sheet, {
+    header: 1,
+    raw: true,
+    defval: null,
+    blankrows: false,
+  });
+
+  return {
+    headers: headerRow.map(cell => String(cell ?? '').trim()),
+    rows,
+    fileDate,
+  };
+};
+
+const parseFileDate = (fileName: string) => {
+  const match = fileName.match(/(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day] = match.map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Inverse of the report's date-time cells: local days since 1899-12-30. The serial holds the local
+// wall-clock time, so it is read as UTC parts and rebuilt in local time, which keeps the right offset
+// on days when daylight saving time starts or ends.
+const fromExcelDateTime = (serial: number) => {
+  const wallClock = new Date(Math.round((serial - 25569) * 86400000));
+  return new Date(
+    wallClock.getUTCFullYear(),
+    wallClock.getUTCMonth(),
+    wallClock.getUTCDate(),
+    wallClock.getUTCHours(),
+    wallClock.getUTCMinutes(),
+    wallClock.getUTCSeconds(),
+    wallClock.getUTCMilliseconds()
+  );
+};
+
+// Dates written by formatDate ("10/19/2026") or as ISO days ("2026-10-19")
+const parseDisplayDate = (value: CellValue) => {
+  if (typeof value === 'number') return fromExcelDateTime(value);
+  const text = String(value ?? '').trim();
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return new Date(Number(us[3]), Number(us[1]) - 1, Number(us[2]));
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+  return null;
+};
+
+// Times written by formatTime ("02:05:09 PM") on the given day
+const parseDisplayTime = (value: string, day: Date) => {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?$/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const meridiem = match[4]?.toUpperCase();
+  if (meridiem === 'PM' && hours < 12) hours += 12;
+  if (meridiem === 'AM' && hours === 12) hours = 0;
+  if (hours > 23) return null;
+
+  const date = new Date(day);
+  date.setHours(hours, Number(match[2]), Number(match[3] ?? 0), 0);
+  return date;
+};
+
+const parseDateTime = (value: CellValue, day: Date | null) => {
+  if (typeof value === 'number') return fromExcelDateTime(value);
+  if (!value || !day) return null;
+  return parseDisplayTime(String(value), day);
+};
+
+const sameSecond = (a: Date, b: Date) => Math.floor(a.getTime() / 1000) === Math.floor(b.getTime() / 1000);
+
+const findBreakTypeId = (name: string, policy: BreakPolicy) => {
+  const match = policy.breakTypes.find(type => type.name.toLowerCase() === name.trim().toLowerCase());
+  // Exports made before break types existed were all judged by the lunch limits
+  return match?.id ?? policy.defaultBreakTypeId;
+};
+
+export const needsFallbackDate = (workbook: BreakWorkbook) => {
+  return !workbook.fileDate && !workbook.headers.some(header => header.toLowerCase() === COLUMN_NAMES.date)
+    && workbook.rows.some(row => row.some(cell => typeof cell === 'string' && /\d:\d\d/.test(cell)));
+};
+
+/**
+ * Works out what importing each row of an exported workbook would do. Breaks already in the
+ * tracker are matched by associate and start time; their missing end time or reason is filled
+ * in from the file, and nothing the tracker already has is overwritten.
+ */
+export const planBreakImport = (workbook: BreakWorkbook, options: BreakImportOptions): BreakImportRow[] => {
+  const { policy, associates, existing, fallbackDate, lastShiftClose, now } = options;
+  const columnIndex = Object.fromEntries(
+    (Object.keys(COLUMN_NAMES) as ImportColumn[]).map(column => [
+      column,
+      workbook.headers.findIndex(header => header.toLowerCase() === COLUMN_NAMES[column]),
+    ])
+  ) as Record<ImportColumn, number>;
+  const cell = (row: CellValue[], column: ImportColumn) => columnIndex[column] === -1 ? null : row[columnIndex[column]] ?? null;
+  const planned: BreakRecord[] = [];
+
+  return workbook.rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const name = String(cell(row, 'name') ?? '').trim();
+    if (!name) {
+      return { rowNumber, action: 'error', note: 'No associate name', name };
+    }
+
+    const day = columnIndex.date !== -1 ? parseDisplayDate(cell(row, 'date')) : workbook.fileDate ?? fallbackDate;
+    const startTime = parseDateTime(cell(row, 'start'), day);
+    if (!startTime) {
+      return { rowNumber, action: 'error', note: day ? 'Break start is not a time' : 'Choose the day these breaks were on', name };
+    }
+
+    let endTime = parseDateTime(cell(row, 'end'), day) ?? undefined;
+    // A display time earlier than the start means the break ran past midnight
+    if (endTime && endTime < startTime) {
+      endTime = new Date(endTime.getTime() + 24 * 60 * 60 * 1000);
+    }
+
+    const associate = associates.find(candidate => normalizeName(candidate.displayName) === normalizeName(name));
+    const breakType = findBreakTypeId(String(cell(row, 'breakType') ?? ''), policy);
+    const reason = String(cell(row, 'reason') ?? '').trim();
+
+    const match = [...existing, ...planned].find(record =>
+      sameSecond(record.startTime, startTime) &&
+      (associate ? isRecordForAssociate(record, associate) : normalizeName(record.name) === normalizeName(name))
+    );
+
+    if (match) {
+      if (planned.includes(match)) {
+        return { rowNumber, action: 'skip', note: 'Repeats an earlier row', name, startTime, endTime };
+      }
+
+      // Only unclosed breaks can take an end time from the file; running ones are still being timed
+      const fillEnd = !match.endTime && match.status === 'unclosed' ? endTime : undefined;
+      const fillReason = !match.reason.trim() && reason;
+      if (!fillEnd && !fillReason) {
+        return { rowNumber, action: 'skip', note: 'Already in the tracker', name, startTime, endTime };
+      }
+
+      const merged: BreakRecord = { ...match, reason: fillReason ? reason : match.reason };
+      if (fillEnd) {
+        const duration = fillEnd.getTime() - match.startTime.getTime();
+        merged.endTime = fillEnd;
+        merged.status = getDurationLevel(duration, getBreakTypePolicy(policy, match.breakType)) === 'overtime'
+          ? 'overtime'
+          : 'completed';
+      }
+      return {
+        rowNumber,
+        action: 'update',
+        note: [fillEnd && 'Adds end time', fillReason && 'Adds reason'].filter(Boolean).join(', '),
+        name,
+        startTime,
+        endTime,
+        record: merged,
+        existing: match,
+      };
+    }
+
+    const duration = endTime ? endTime.getTime() - startTime.getTime() : null;
+    const record: BreakRecord = {
+      id: `${associate?.id ?? normalizeName(name).replace(/\s+/g, '-')}-${startTime.getTime()}`,
+      associateId: associate?.id,
+      name: associate?.displayName ?? name,
+      reason,
+      breakType,
+      startTime,
+      endTime,
+      // A break exported while still running has no known end
+      status: duration === null
+        ? 'unclosed'
+        : getDurationLevel(duration, getBreakTypePolicy(policy, breakType)) === 'overtime' ? 'overtime' : 'completed',
+      archivedAt: startTime < lastShiftClose ? lastShiftClose : duration === null ? now : undefined,
+    };
+    planned.push(record);
+
+    return {
+      rowNumber,
+      action: 'add',
+      note: associate ? 'New break' : 'New break (not on the roster)',
+      name: record.name,
+      startTime,
+      endTime,
+      record,
+    };
+  });
+};
@@ -0,0 +1,22 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { BreakPolicy, withPolicyDefaults } from '@/lib/break-policy';
+
+// Null until an admin has saved the site's policy
+export const fetchBreakPolicy = async () => {
+  const { data, error } = await supabase
+    .from('break_policy')
+    .select('policy')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? withPolicyDefaults(data.policy as Partial<BreakPolicy>) : null;
+};
+
+export const saveBreakPolicy = async (policy: BreakPolicy) => {
+  const { error } = await supabase
+    .from('break_policy')
+    .upsert({ id: true, policy: policy as unknown as Json });
+
+  if (error) throw error;
+};
@@ -0,0 +1,158 @@
+export interface BreakTypePolicy {
+  id: string;
+  name: string;
+  // Nominal length of the break
+  allowedMinutes: number;
+  // Extra minutes tolerated past the allowed length before warning
+  graceMinutes: number;
+  // Breaks running longer than this are marked as overtime
+  overtimeMinutes: number;
+  // How many breaks of this type an associate may take per shift; null means unlimited
+  allowancePerShift: number | null;
+  // No longer offered for new breaks, but kept so earlier breaks of this type keep their limits
+  retired?: boolean;
+}
+
+export interface BreakPolicy {
+  siteName: string;
+  // Local "HH:mm" times at which a new shift begins
+  shiftStartTimes: string[];
+  // Local "HH:mm" time at which the board is archived to history and starts clean
+  shiftCloseTime: string;
+  breakTypes: BreakTypePolicy[];
+  defaultBreakTypeId: string;
+}
+
+export type DurationLevel = 'within' | 'warning' | 'overtime';
+
+export const DEFAULT_BREAK_POLICY: BreakPolicy = {
+  siteName: '',
+  shiftStartTimes: ['06:00'],
+  shiftCloseTime: '00:00',
+  breakTypes: [
+    { id: 'rest', name: 'Rest Break', allowedMinutes: 15, graceMinutes: 0, overtimeMinutes: 17, allowancePerShift: 2 },
+    { id: 'lunch', name: 'Lunch', allowedMinutes: 30, graceMinutes: 0, overtimeMinutes: 32, allowancePerShift: 1 },
+    { id: 'personal', name: 'Personal', allowedMinutes: 10, graceMinutes: 0, overtimeMinutes: 12, allowancePerShift: null },
+    { id: 'medical', name: 'Medical', allowedMinutes: 20, graceMinutes: 5, overtimeMinutes: 30, allowancePerShift: null },
+  ],
+  defaultBreakTypeId: 'lunch',
+};
+
+// A saved policy filled out with the defaults; one without break types is ignored
+export const withPolicyDefaults = (saved: Partial<BreakPolicy> | null | undefined): BreakPolicy => {
+  if (!saved || !Array.isArray(saved.breakTypes) || saved.breakTypes.length === 0) {
+    return DEFAULT_BREAK_POLICY;
+  }
+  return { ...DEFAULT_BREAK_POLICY, ...saved } as BreakPolicy;
+};
+
+export const getBreakTypePolicy = (policy: BreakPolicy, breakTypeId?: string): BreakTypePolicy => {
+  return (
+    policy.breakTypes.find(type => type.id === breakTypeId) ||
+    policy.breakTypes.find(type => type.id === policy.defaultBreakTypeId) ||
+    policy.breakTypes[0] ||
+    DEFAULT_BREAK_POLICY.breakTypes[1]
+  );
+};
+
+export const getActiveBreakTypes = (policy: BreakPolicy) => {
+  return policy.breakTypes.filter(type => !type.retired);
+};
+
+/** Whether new breaks may be started under the type: it exists and has not been retired. */
+export const isActiveBreakType = (policy: BreakPolicy, breakTypeId: string) => {
+  return getActiveBreakTypes(policy).some(type => type.id === breakTypeId);
+};
+
+/**
+ * Removing a type retires it instead while any saved policy used it. Breaks already recorded
+ * under it would otherwise fall back to the default type and be judged by the wrong limits.
+ */
+export const removeBreakType = (policy: BreakPolicy, savedPolicy: BreakPolicy, id: string): BreakPolicy => {
+  const wasSaved = savedPolicy.breakTypes.some(type => type.id === id);
+  return {
+    ...policy,
+    breakTypes: wasSaved
+      ? policy.breakTypes.map(type => type.id === id ? { ...type, retired: true } : type)
+      : policy.breakTypes.filter(type => type.id !== id),
+  };
+};
+
+// The default policy, keeping the current policy's other types as retired ones
+export const resetBreakPolicy = (policy: BreakPolicy): BreakPolicy => {
+  const defaultIds = new Set(DEFAULT_BREAK_POLICY.breakTypes.map(type => type.id));
+  return {
+    ...DEFAULT_BREAK_POLICY,
+    breakTypes: [
+      ...DEFAULT_BREAK_POLICY.breakTypes,
+      ...policy.breakTypes.filter(type => !defaultIds.has(type.id)).map(type => ({ ...type, retired: true })),
+    ],
+  };
+};
+
+export const getWarningMinutes = (breakType: BreakTypePolicy) => {
+  return breakType.allowedMinutes + breakType.graceMinutes;
+};
+
+export const getDurationLevel = (durationMs: number, breakType: BreakTypePolicy): DurationLevel => {
+  const minutes = Math.floor(durationMs / 60000);
+
+  if (minutes > breakType.overtimeMinutes) return 'overtime';
+  if (minutes > getWarningMinutes(breakType)) return 'warning';
+  return 'within';
+};
+
+export const validateBreakTypePolicy = (breakType: BreakTypePolicy): string | null => {
+  if (!breakType.name.trim()) {
+    return 'Every break type needs a name';
+  }
+  if (!(breakType.allowedMinutes > 0)) {
+    return `${breakType.name}: allowed duration must be greater than zero`;
+  }
+  if (!(breakType.graceMinutes >= 0)) {
+    return `${breakType.name}: grace period cannot be negative`;
+  }
+  if (!(breakType.overtimeMinutes >= getWarningMinutes(breakType))) {
+    return `${breakType.name}: overtime threshold must be at least allowed duration plus grace period`;
+  }
+  if (breakType.allowancePerShift != null && !(breakType.allowancePerShift >= 1)) {
+    return `${breakType.name}: allowance per shift must be at least one, or left blank for unlimited`;
+  }
+  return null;
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const validateBreakPolicy = (policy: BreakPolicy): string | null => {
+  if (getActiveBreakTypes(policy).length === 0) {
+    return 'At least one break type is required';
+  }
+
+  if (policy.shiftStartTimes.length === 0) {
+    return 'At least one shift start time is required';
+  }
+
+  if (policy.shiftStartTimes.some(time => !TIME_PATTERN.test(time))) {
+    return 'Shift start times must use the HH:mm format';
+  }
+
+  if (!TIME_PATTERN.test(policy.shiftCloseTime)) {
+    return 'Shift close time must use the HH:mm format';
+  }
+
+  for (const breakType of policy.breakTypes) {
+    const error = validateBreakTypePolicy(breakType);
+    if (error) return error;
+  }
+
+  const ids = policy.breakTypes.map(type => type.id);
+  if (new Set(ids).size !== ids.length) {
+    return 'Break type IDs must be unique';
+  }
+
+  if (!getActiveBreakTypes(policy).some(type => type.id === policy.defaultBreakTypeId)) {
+    return 'Choose a default break type';
+  }
+
+  return null;
+};
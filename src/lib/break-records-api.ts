@@ -0,0 +1,162 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import type { AuditAction } from '@/lib/audit-log';
+import { BreakRecord, BreakStatus } from '@/lib/break-records';
+import { getStationId, getStationName } from '@/lib/station';
+
+export type BreakRecordRow = Tables<'break_records'>;
+
+/**
+ * How a write should appear in the audit log, which the database records for every change to a
+ * break. The actor comes from the sign-in; the station and these details come from this device.
+ */
+export interface AuditContext {
+  // Only for changes the row alone does not explain; the database works out the rest
+  action?: Extract<AuditAction, 'import' | 'undo' | 'redo'>;
+  // A shift closed by the schedule rather than by hand
+  automatic?: boolean;
+  // ISO timestamp of when the change was made at this station, for changes queued while offline
+  occurredAt?: string;
+}
+
+const AUDIT_CONTEXT_HEADER = 'x-audit-context';
+
+// Base64, since header values cannot carry station names outside Latin-1
+const toAuditContextHeader = (context: AuditContext = {}) => {
+  const json = JSON.stringify({ ...context, stationId: getStationId(), stationName: getStationName() });
+  return btoa(String.fromCharCode(...new TextEncoder().encode(json)));
+};
+
+export const fromBreakRecordRow = (row: BreakRecordRow): BreakRecord => {
+  return {
+    id: row.id,
+    associateId: row.associate_id ?? undefined,
+    name: row.associate_name,
+    reason: row.reason,
+    breakType: row.break_type,
+    startTime: new Date(row.start_time),
+    endTime: row.end_time ? new Date(row.end_time) : undefined,
+    status: row.status as BreakStatus,
+    archivedAt: row.archived_at ? new Date(row.archived_at) : undefined,
+    adjustment: row.adjusted_at
+      ? { reason: row.adjustment_reason ?? '', adjustedAt: new Date(row.adjusted_at), adjustedBy: row.adjusted_by ?? '' }
+      : undefined,
+  };
+};
+
+export const toBreakRecordRow = (record: BreakRecord): TablesInsert<'break_records'> => ({
+  id: record.id,
+  associate_id: record.associateId ?? null,
+  associate_name: record.name,
+  break_type: record.breakType,
+  reason: record.reason,
+  status: record.status,
+  start_time: record.startTime.toISOString(),
+  end_time: record.endTime ? record.endTime.toISOString() : null,
+  archived_at: record.archivedAt ? record.archivedAt.toISOString() : null,
+  adjusted_at: record.adjustment ? record.adjustment.adjustedAt.toISOString() : null,
+  adjusted_by: record.adjustment?.adjustedBy ?? null,
+  adjustment_reason: record.adjustment?.reason ?? null,
+});
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+const selectBreakRecords = () => supabase.from('break_records').select('*');
+
+type BreakRecordQuery = ReturnType<typeof selectBreakRecords>;
+
+// Reads a page at a time so a long history is not cut off at the server's row limit
+const fetchAllBreakRecords = async (filter: (query: BreakRecordQuery) => BreakRecordQuery = query => query) => {
+  const rows: BreakRecordRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await filter(selectBreakRecords())
+      .order('start_time', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) break;
+  }
+  return rows.map(fromBreakRecordRow);
+};
+
+// Every break record, archived or not, for the reporting pages
+export const fetchBreakHistory = () => fetchAllBreakRecords();
+
+/**
+ * The records on the tracker board, plus any changed on the server since `changedSince`, such as
+ * breaks another station archived or corrected after this one last synced.
+ */
+export const fetchBoardRecords = (changedSince?: Date) => fetchAllBreakRecords(query => changedSince
+  ? query.or(`archived_at.is.null,updated_at.gte.${changedSince.toISOString()}`)
+  : query.is('archived_at', null));
+
+export const fetchBreakRecordRow = async (id: string) => {
+  const { data, error } = await supabase
+    .from('break_records')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const insertBreakRecordRowIfMissing = async (row: TablesInsert<'break_records'>, context?: AuditContext) => {
+  const { error } = await supabase
+    .from('break_records')
+    .upsert(row, { onConflict: 'id', ignoreDuplicates: true })
+    .setHeader(AUDIT_CONTEXT_HEADER, toAuditContextHeader(context));
+
+  if (error) throw error;
+};
+
+// Writes the whole row, recreating it if it was deleted
+export const upsertBreakRecordRow = async (row: TablesInsert<'break_records'>, context?: AuditContext) => {
+  const { error } = await supabase
+    .from('break_records')
+    .upsert(row, { onConflict: 'id' })
+    .setHeader(AUDIT_CONTEXT_HEADER, toAuditContextHeader(context));
+  if (error) throw error;
+};
+
+export const updateBreakRecordRow = async (id: string, changes: TablesUpdate<'break_records'>, context?: AuditContext) => {
+  const { error } = await supabase
+    .from('break_records')
+    .update(changes)
+    .eq('id', id)
+    .setHeader(AUDIT_CONTEXT_HEADER, toAuditContextHeader(context));
+  if (error) throw error;
+};
+
+export const deleteBreakRecord = async (id: string, context?: AuditContext) => {
+  const { error } = await supabase
+    .from('break_records')
+    .delete()
+    .eq('id', id)
+    .setHeader(AUDIT_CONTEXT_HEADER, toAuditContextHeader(context));
+  if (error) throw error;
+};
+
+// Breaks ended at another station in the meantime keep their end time instead of becoming unclosed.
+// Only rows still on the board change, so stations closing the same shift log each break once.
+export const archiveBreakRecordRows = async (ids: string[], archivedAt: string, context?: AuditContext) => {
+  const unclosed = await supabase
+    .from('break_records')
+    .update({ status: 'unclosed', archived_at: archivedAt })
+    .in('id', ids)
+    .is('archived_at', null)
+    .is('end_time', null)
+    .setHeader(AUDIT_CONTEXT_HEADER, toAuditContextHeader(context));
+  if (unclosed.error) throw unclosed.error;
+
+  const archived = await supabase
+    .from('break_records')
+    .update({ archived_at: archivedAt })
+    .in('id', ids)
+    .is('archived_at', null)
+    .setHeader(AUDIT_CONTEXT_HEADER, toAuditContextHeader(context));
+  if (archived.error) throw archived.error;
+};
@@ -0,0 +1,95 @@
+// 'unclosed' marks a break that was still running when its shift was closed
+export type BreakStatus = 'active' | 'completed' | 'overtime' | 'unclosed';
+
+// A supervisor's correction of the start or end time
+export interface BreakAdjustment {
+  reason: string;
+  adjustedAt: Date;
+  adjustedBy: string;
+}
+
+export interface BreakRecord {
+  id: string;
+  // Roster ID; missing on records created before the roster existed
+  associateId?: string;
+  // Display name at the time of the break
+  name: string;
+  reason: string;
+  breakType: string;
+  startTime: Date;
+  endTime?: Date;
+  status: BreakStatus;
+  // Set when the shift closed and the record moved from the board to history
+  archivedAt?: Date;
+  adjustment?: BreakAdjustment;
+}
+
+export const formatTime = (date: Date) => {
+  return date.toLocaleTimeString('en-US', { 
+    hour: '2-digit', 
+    minute: '2-digit', 
+    second: '2-digit' 
+  });
+};
+
+export const formatDate = (date: Date) => {
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  });
+};
+
+// Length of an ended break; null while it is running or when its end was never recorded
+export const getRecordDuration = (record: BreakRecord) => {
+  return record.endTime ? record.endTime.getTime() - record.startTime.getTime() : null;
+};
+
+export const formatDuration = (ms: number) => {
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  
+  if (hours > 0) {
+    return `${hours}h ${minutes}m ${seconds}s`;
+  }
+  return `${minutes}m ${seconds}s`;
+};
+
+/**
+ * Applies a record received from another station. Ending a break is one-way, so an
+ * incoming copy that is still active never reopens a break this station has ended.
+ */
+export const mergeIncomingRecord = (records: BreakRecord[], incoming: BreakRecord) => {
+  const existing = records.find(record => record.id === incoming.id);
+  if (!existing) {
+    return [...records, incoming].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+  const merged = existing.endTime && !incoming.endTime
+    ? { ...incoming, endTime: existing.endTime, status: existing.status }
+    : incoming;
+  return records.map(record => record.id === incoming.id ? merged : record);
+};
+
+/**
+ * Applies a board sync: `synced` holds every record still on the board, so a board record missing
+ * from it was deleted or archived elsewhere. Archived records kept on this device stay as history.
+ */
+export const mergeSyncedRecords = (records: BreakRecord[], synced: BreakRecord[]) => {
+  const syncedIds = new Set(synced.map(record => record.id));
+  return [
+    ...records.filter(record => record.archivedAt && !syncedIds.has(record.id)),
+    ...synced,
+  ].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+};
+
+/**
+ * Keeps the reasons still being typed on this device over the ones in `next`. A reason is only
+ * queued once its field loses focus, so a sync or another station's change would otherwise
+ * replace the text mid-edit.
+ */
+export const keepReasonsBeingEdited = (records: BreakRecord[], next: BreakRecord[], editingIds: string[]) => {
+  if (editingIds.length === 0) return next;
+  const typed = new Map(records.filter(record => editingIds.includes(record.id)).map(record => [record.id, record.reason]));
+  return next.map(record => typed.has(record.id) ? { ...record, reason: typed.get(record.id) } : record);
+};
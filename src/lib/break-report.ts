@@ -0,0 +1,259 @@
+import * as XLSX from 'xlsx-js-style';
+import { getRecordTeam } from '@/lib/break-analytics';
+import { BreakPolicy, getBreakTypePolicy } from '@/lib/break-policy';
+import { BreakRecord } from '@/lib/break-records';
+import { getRecordDurationMinutes } from '@/lib/break-time';
+import { Associate } from '@/lib/roster';
+
+type CellValue = string | number | null;
+
+interface Column {
+  header: string;
+  width: number;
+  // Excel number format applied to the numeric cells of the column
+  format?: string;
+}
+
+interface DurationTotals {
+  breaks: number;
+  ended: number;
+  totalMinutes: number;
+  longestMinutes: number | null;
+  overtime: number;
+  unclosed: number;
+}
+
+const DATE_TIME_FORMAT = 'yyyy-mm-dd hh:mm:ss';
+const MINUTES_FORMAT = '0.00';
+const PERCENT_FORMAT = '0.0%';
+
+const HEADER_STYLE = {
+  font: { bold: true, color: { rgb: '1E293B' } },
+  fill: { patternType: 'solid', fgColor: { rgb: 'DBEAFE' } },
+  border: { bottom: { style: 'thin', color: { rgb: '94A3B8' } } },
+  alignment: { vertical: 'center' },
+};
+
+const TOTAL_ROW_STYLE = {
+  font: { bold: true },
+  border: { top: { style: 'thin', color: { rgb: '94A3B8' } } },
+};
+
+// Excel stores date-times as local days since 1899-12-30
+const toExcelDateTime = (date: Date) => {
+  return (date.getTime() - date.getTimezoneOffset() * 60000) / 86400000 + 25569;
+};
+
+const roundMinutes = (minutes: number) => Math.round(minutes * 100) / 100;
+
+const getDurationMinutes = (record: BreakRecord, now: Date) => {
+  if (record.status === 'unclosed') return null;
+  return roundMinutes(((record.endTime ?? now).getTime() - record.startTime.getTime()) / 60000);
+};
+
+const buildSheet = (columns: Column[], rows: CellValue[][]) => {
+  const sheet = XLSX.utils.aoa_to_sheet([columns.map(column => column.header), ...rows]);
+  sheet['!cols'] = columns.map(column => ({ wch: column.width }));
+  sheet['!autofilter'] = { ref: sheet['!ref'] ?? 'A1' };
+
+  columns.forEach((column, c) => {
+    const headerCell = sheet[XLSX.utils.encode_cell({ r: 0, c })];
+    if (headerCell) headerCell.s = HEADER_STYLE;
+    if (!column.format) return;
+
+    rows.forEach((_, index) => {
+      const cell = sheet[XLSX.utils.encode_cell({ r: index + 1, c })];
+      if (cell?.t === 'n') cell.z = column.format;
+    });
+  });
+
+  return sheet;
+};
+
+const styleLastRow = (sheet: XLSX.WorkSheet, columnCount: number, rowCount: number) => {
+  for (let c = 0; c < columnCount; c++) {
+    const cell = sheet[XLSX.utils.encode_cell({ r: rowCount, c })];
+    if (cell) cell.s = { ...cell.s, ...TOTAL_ROW_STYLE };
+  }
+};
+
+const summarize = (records: BreakRecord[]): DurationTotals => {
+  const durations = records
+    .map(getRecordDurationMinutes)
+    .filter((minutes): minutes is number => minutes !== null);
+
+  return {
+    breaks: records.length,
+    ended: durations.length,
+    totalMinutes: durations.reduce((sum, minutes) => sum + minutes, 0),
+    longestMinutes: durations.length ? Math.max(...durations) : null,
+    overtime: records.filter(record => record.status === 'overtime').length,
+    unclosed: records.filter(record => record.status === 'unclosed').length,
+  };
+};
+
+const groupBy = (records: BreakRecord[], getKey: (record: BreakRecord) => string) => {
+  const groups = new Map<string, BreakRecord[]>();
+  records.forEach(record => {
+    const key = getKey(record);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  });
+  return groups;
+};
+
+const averageOf = (totals: DurationTotals) => {
+  return totals.ended ? roundMinutes(totals.totalMinutes / totals.ended) : null;
+};
+
+const buildBreakTimesSheet = (records: BreakRecord[], policy: BreakPolicy, associates: Associate[], now: Date) => {
+  const columns: Column[] = [
+    { header: 'Associate Name', width: 24 },
+    { header: 'Team', width: 14 },
+    { header: 'Break Type', width: 14 },
+    { header: 'Break Start', width: 20, format: DATE_TIME_FORMAT },
+    { header: 'Break End', width: 20, format: DATE_TIME_FORMAT },
+    { header: 'Duration (min)', width: 15, format: MINUTES_FORMAT },
+    { header: 'Allowed (min)', width: 14 },
+    { header: 'Reason', width: 30 },
+    { header: 'Status', width: 12 },
+    { header: 'Adjusted', width: 10 },
+    { header: 'Correction Reason', width: 30 },
+  ];
+  const rows = records.map(record => {
+    const breakType = getBreakTypePolicy(policy, record.breakType);
+    return [
+      record.name,
+      getRecordTeam(record, associates),
+      breakType.name,
+      toExcelDateTime(record.startTime),
+      record.endTime ? toExcelDateTime(record.endTime) : null,
+      getDurationMinutes(record, now),
+      breakType.allowedMinutes,
+      record.reason,
+      record.status,
+      record.adjustment ? 'Yes' : 'No',
+      record.adjustment?.reason ?? '',
+    ];
+  });
+  return buildSheet(columns, rows);
+};
+
+const buildSummarySheet = (records: BreakRecord[], policy: BreakPolicy) => {
+  const columns: Column[] = [
+    { header: 'Break Type', width: 18 },
+    { header: 'Breaks', width: 10 },
+    { header: 'Ended', width: 10 },
+    { header: 'Total (min)', width: 13, format: MINUTES_FORMAT },
+    { header: 'Average (min)', width: 14, format: MINUTES_FORMAT },
+    { header: 'Longest (min)', width: 14, format: MINUTES_FORMAT },
+    { header: 'Overtime', width: 10 },
+    { header: 'Overtime Rate', width: 14, format: PERCENT_FORMAT },
+    { header: 'Unclosed', width: 10 },
+  ];
+  const toRow = (label: string, totals: DurationTotals): CellValue[] => [
+    label,
+    totals.breaks,
+    totals.ended,
+    roundMinutes(totals.totalMinutes),
+    averageOf(totals),
+    totals.longestMinutes === null ? null : roundMinutes(totals.longestMinutes),
+    totals.overtime,
+    totals.ended ? totals.overtime / totals.ended : null,
+    totals.unclosed,
+  ];
+
+  const rows = [...groupBy(records, record => record.breakType).entries()]
+    .map(([breakTypeId, group]) => toRow(getBreakTypePolicy(policy, breakTypeId).name, summarize(group)));
+  rows.push(toRow('All breaks', summarize(records)));
+
+  const sheet = buildSheet(columns, rows);
+  styleLastRow(sheet, columns.length, rows.length);
+  return sheet;
+};
+
+const buildPerAssociateSheet = (records: BreakRecord[], associates: Associate[]) => {
+  const columns: Column[] = [
+    { header: 'Associate Name', width: 24 },
+    { header: 'Team', width: 14 },
+    { header: 'Breaks', width: 10 },
+    { header: 'Total (min)', width: 13, format: MINUTES_FORMAT },
+    { header: 'Average (min)', width: 14, format: MINUTES_FORMAT },
+    { header: 'Longest (min)', width: 14, format: MINUTES_FORMAT },
+    { header: 'Overtime', width: 10 },
+    { header: 'Unclosed', width: 10 },
+  ];
+  const rows = [...groupBy(records, record => record.associateId ?? record.name).values()]
+    .map(group => {
+      const totals = summarize(group);
+      return [
+        group[group.length - 1].name,
+        getRecordTeam(group[0], associates),
+        totals.breaks,
+        roundMinutes(totals.totalMinutes),
+        averageOf(totals),
+        totals.longestMinutes === null ? null : roundMinutes(totals.longestMinutes),
+        totals.overtime,
+        totals.unclosed,
+      ];
+    })
+    .sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+  return buildSheet(columns, rows);
+};
+
+const buildExceptionsSheet = (records: BreakRecord[], policy: BreakPolicy, now: Date) => {
+  const columns: Column[] = [
+    { header: 'Exception', width: 12 },
+    { header: 'Associate Name', width: 24 },
+    { header: 'Break Type', width: 14 },
+    { header: 'Break Start', width: 20, format: DATE_TIME_FORMAT },
+    { header: 'Break End', width: 20, format: DATE_TIME_FORMAT },
+    { header: 'Duration (min)', width: 15, format: MINUTES_FORMAT },
+    { header: 'Over Limit (min)', width: 16, format: MINUTES_FORMAT },
+    { header: 'Reason', width: 30 },
+  ];
+  const rows = records
+    .filter(record => record.status === 'overtime' || record.status === 'unclosed')
+    .map(record => {
+      const duration = getDurationMinutes(record, now);
+      const allowed = getBreakTypePolicy(policy, record.breakType).allowedMinutes;
+      return [
+        record.status === 'overtime' ? 'Overtime' : 'Unclosed',
+        record.name,
+        getBreakTypePolicy(policy, record.breakType).name,
+        toExcelDateTime(record.startTime),
+        record.endTime ? toExcelDateTime(record.endTime) : null,
+        duration,
+        duration === null ? null : roundMinutes(duration - allowed),
+        record.reason,
+      ];
+    });
+  return buildSheet(columns, rows);
+};
+
+/**
+ * Builds the break report workbook: every break with numeric minutes and real date-times,
+ * plus Summary, Per Associate and Exceptions sheets.
+ */
+export const buildBreakReport = (
+  records: BreakRecord[],
+  policy: BreakPolicy,
+  associates: Associate[],
+  now = new Date()
+) => {
+  const sorted = [...records].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, buildSummarySheet(sorted, policy), 'Summary');
+  XLSX.utils.book_append_sheet(workbook, buildBreakTimesSheet(sorted, policy, associates, now), 'Break Times');
+  XLSX.utils.book_append_sheet(workbook, buildPerAssociateSheet(sorted, associates), 'Per Associate');
+  XLSX.utils.book_append_sheet(workbook, buildExceptionsSheet(sorted, policy, now), 'Exceptions');
+  return workbook;
+};
+
+export const downloadBreakReport = (
+  records: BreakRecord[],
+  policy: BreakPolicy,
+  associates: Associate[],
+  fileName: string
+) => {
+  XLSX.writeFile(buildBreakReport(records, policy, associates), fileName);
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BREAK_RECORDS_STORAGE_VERSION,
+  BreakStorageError,
+  parseStoredBreakRecords,
+  serializeBreakRecords,
+} from '@/lib/break-storage';
+
+const now = new Date('2026-10-19T18:00:00.000Z');
+
+describe('parseStoredBreakRecords', () => {
+  it('upgrades the bare array saved by version 1', () => {
+    const saved = JSON.stringify([
+      {
+        id: 'a1-1',
+        name: 'Ana Lopez',
+        reason: '',
+        start: '8:00:00 AM',
+        end: '8:30:00 AM',
+        duration: '30m 0s',
+        startTime: '2026-10-19T12:00:00.000Z',
+        endTime: '2026-10-19T12:30:00.000Z',
+        status: 'completed',
+      },
+    ]);
+
+    const { records, quarantined } = parseStoredBreakRecords(saved, now);
+
+    expect(quarantined).toEqual([]);
+    expect(records).toEqual([{
+      id: 'a1-1',
+      associateId: undefined,
+      name: 'Ana Lopez',
+      reason: '',
+      breakType: 'lunch',
+      status: 'completed',
+      startTime: new Date('2026-10-19T12:00:00.000Z'),
+      endTime: new Date('2026-10-19T12:30:00.000Z'),
+      archivedAt: undefined,
+      adjustment: undefined,
+    }]);
+  });
+
+  it('keeps the break type saved by version 2', () => {
+    const saved = JSON.stringify({
+      version: 2,
+      records: [{
+        id: 'a1-1',
+        name: 'Ana Lopez',
+        reason: 'Doctor',
+        breakType: 'medical',
+        startTime: '2026-10-19T12:00:00.000Z',
+        status: 'active',
+      }],
+    });
+
+    expect(parseStoredBreakRecords(saved, now).records[0].breakType).toBe('medical');
+  });
+
+  it('reads back what it saves', () => {
+    const records = [{
+      id: 'a1-1',
+      associateId: 'a1',
+      name: 'Ana Lopez',
+      reason: 'Doctor',
+      breakType: 'lunch',
+      status: 'overtime' as const,
+      startTime: new Date('2026-10-19T12:00:00.000Z'),
+      endTime: new Date('2026-10-19T12:40:00.000Z'),
+      archivedAt: new Date('2026-10-19T22:00:00.000Z'),
+      adjustment: { reason: 'Badge misread', adjustedAt: new Date('2026-10-19T13:00:00.000Z'), adjustedBy: 'Sam' },
+    }];
+
+    const saved = serializeBreakRecords(records);
+
+    expect(JSON.parse(saved).version).toBe(BREAK_RECORDS_STORAGE_VERSION);
+    expect(parseStoredBreakRecords(saved, now).records).toEqual(records);
+  });
+
+  it('quarantines records that fail validation instead of dropping them', () => {
+    const unreadable = { id: 'a1-2', name: '', startTime: 'yesterday' };
+    const saved = JSON.stringify({
+      version: BREAK_RECORDS_STORAGE_VERSION,
+      records: [
+        { id: 'a1-1', name: 'Ana Lopez', reason: '', breakType: 'lunch', startTime: '2026-10-19T12:00:00.000Z', status: 'active' },
+        unreadable,
+      ],
+    });
+
+    const { records, quarantined } = parseStoredBreakRecords(saved, now);
+
+    expect(records.map(record => record.id)).toEqual(['a1-1']);
+    expect(quarantined).toHaveLength(1);
+    expect(quarantined[0].record).toEqual(unreadable);
+    expect(quarantined[0].quarantinedAt).toBe(now.toISOString());
+  });
+
+  it('refuses data written by a newer version', () => {
+    const saved = JSON.stringify({ version: BREAK_RECORDS_STORAGE_VERSION + 1, records: [] });
+
+    expect(() => parseStoredBreakRecords(saved, now)).toThrow(BreakStorageError);
+  });
+});
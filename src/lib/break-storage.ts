@@ -0,0 +1,235 @@
+import { z } from 'zod';
+import { DEFAULT_BREAK_POLICY } from '@/lib/break-policy';
+import { BreakRecord } from '@/lib/break-records';
+import { withStorageLock } from '@/lib/cross-tab';
+
+export const BREAK_RECORDS_STORAGE_KEY = 'breakTimeTrackerData';
+export const BREAK_RECORDS_QUARANTINE_STORAGE_KEY = 'breakTimeTrackerQuarantine';
+export const BREAK_RECORDS_BACKUP_STORAGE_KEY = 'breakTimeTrackerDataBackup';
+
+// Bump when the stored record shape changes, and add a migration step from the previous version
+export const BREAK_RECORDS_STORAGE_VERSION = 3;
+
+const isoTimestamp = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Not a valid timestamp');
+
+// Current record shape: ISO timestamps only; display values are worked out when rendering
+const storedBreakRecordSchema = z.object({
+  id: z.string().min(1),
+  associateId: z.string().optional(),
+  name: z.string().min(1),
+  reason: z.string(),
+  breakType: z.string().min(1),
+  startTime: isoTimestamp,
+  endTime: isoTimestamp.optional(),
+  status: z.enum(['active', 'completed', 'overtime', 'unclosed']),
+  archivedAt: isoTimestamp.optional(),
+  adjustment: z.object({
+    reason: z.string().min(1),
+    adjustedAt: isoTimestamp,
+    adjustedBy: z.string(),
+  }).optional(),
+});
+
+type StoredBreakRecord = z.infer<typeof storedBreakRecordSchema>;
+
+const envelopeSchema = z.object({
+  version: z.number().int().positive(),
+  records: z.array(z.unknown()),
+});
+
+type StoredEnvelope = z.infer<typeof envelopeSchema>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Upgrades records from the keyed version to the next one. Steps only reshape what they
+ * recognise; anything they cannot read is left for validation to quarantine.
+ */
+const MIGRATIONS: Record<number, (records: unknown[]) => unknown[]> = {
+  // Version 1 saved display strings next to the timestamps, and had no break type before
+  // break types existed (those breaks were judged by the lunch limits)
+  1: records => records.map(record => {
+    if (!isPlainObject(record)) return record;
+    const { start, end, duration, ...rest } = record;
+    return { ...rest, breakType: rest.breakType ?? DEFAULT_BREAK_POLICY.defaultBreakTypeId };
+  }),
+  // Version 3 added supervisor corrections, which older records do not have. The bump keeps an
+  // older tracker from loading the records and saving them back without their corrections
+  2: records => records,
+};
+
+export interface QuarantinedBreakRecord {
+  record: unknown;
+  // Why validation rejected it
+  problem: string;
+  quarantinedAt: string;
+}
+
+export interface StoredBreakRecords {
+  records: BreakRecord[];
+  quarantined: QuarantinedBreakRecord[];
+}
+
+/**
+ * The saved records could not be read at all. The raw payload is kept so it can be
+ * downloaded before anything overwrites it.
+ */
+export class BreakStorageError extends Error {
+  readonly rawData: string;
+
+  constructor(message: string, rawData: string) {
+    super(message);
+    this.name = 'BreakStorageError';
+    this.rawData = rawData;
+  }
+}
+
+const toEnvelope = (parsed: unknown, savedData: string): StoredEnvelope => {
+  // Version 1 was a bare array of records
+  if (Array.isArray(parsed)) return { version: 1, records: parsed };
+
+  const envelope = envelopeSchema.safeParse(parsed);
+  if (!envelope.success) {
+    throw new BreakStorageError('The saved data is not in a format the tracker recognises.', savedData);
+  }
+  if (envelope.data.version > BREAK_RECORDS_STORAGE_VERSION) {
+    throw new BreakStorageError(
+      `The saved data was written by a newer version of the tracker (format ${envelope.data.version}).`,
+      savedData
+    );
+  }
+  return envelope.data;
+};
+
+const fromStoredRecord = (record: StoredBreakRecord): BreakRecord => ({
+  id: record.id,
+  associateId: record.associateId,
+  name: record.name,
+  reason: record.reason,
+  breakType: record.breakType,
+  status: record.status,
+  startTime: new Date(record.startTime),
+  endTime: record.endTime ? new Date(record.endTime) : undefined,
+  archivedAt: record.archivedAt ? new Date(record.archivedAt) : undefined,
+  adjustment: record.adjustment
+    ? { reason: record.adjustment.reason, adjustedAt: new Date(record.adjustment.adjustedAt), adjustedBy: record.adjustment.adjustedBy }
+    : undefined,
+});
+
+const toStoredRecord = (record: BreakRecord): StoredBreakRecord => ({
+  id: record.id,
+  associateId: record.associateId,
+  name: record.name,
+  reason: record.reason,
+  breakType: record.breakType,
+  startTime: record.startTime.toISOString(),
+  endTime: record.endTime?.toISOString(),
+  status: record.status,
+  archivedAt: record.archivedAt?.toISOString(),
+  adjustment: record.adjustment
+    ? { ...record.adjustment, adjustedAt: record.adjustment.adjustedAt.toISOString() }
+    : undefined,
+});
+
+/**
+ * Parses the local cache written by the tracker, upgrading payloads saved by older versions one
+ * step at a time. Records that fail validation are returned separately instead of being dropped.
+ * Throws a BreakStorageError if the payload as a whole cannot be read.
+ */
+export const parseStoredBreakRecords = (savedData: string, now = new Date()): StoredBreakRecords => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(savedData);
+  } catch {
+    throw new BreakStorageError('The saved data is damaged and is not valid JSON.', savedData);
+  }
+
+  let { version, records } = toEnvelope(parsed, savedData);
+  while (version < BREAK_RECORDS_STORAGE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new BreakStorageError(`The tracker cannot upgrade saved data from format ${version}.`, savedData);
+    }
+    records = migrate(records);
+    version += 1;
+  }
+
+  const result: StoredBreakRecords = { records: [], quarantined: [] };
+  records.forEach(record => {
+    const validated = storedBreakRecordSchema.safeParse(record);
+    if (validated.success) {
+      result.records.push(fromStoredRecord(validated.data));
+    } else {
+      result.quarantined.push({
+        record,
+        problem: validated.error.issues.map(issue => `${issue.path.join('.') || 'record'}: ${issue.message}`).join('; '),
+        quarantinedAt: now.toISOString(),
+      });
+    }
+  });
+  return result;
+};
+
+export const serializeBreakRecords = (records: BreakRecord[]) => {
+  const payload: StoredEnvelope = {
+    version: BREAK_RECORDS_STORAGE_VERSION,
+    records: records.map(toStoredRecord),
+  };
+  return JSON.stringify(payload);
+};
+
+export interface LoadedBreakRecords extends StoredBreakRecords {
+  error: BreakStorageError | null;
+}
+
+export const loadBreakRecords = (): LoadedBreakRecords => {
+  const savedData = localStorage.getItem(BREAK_RECORDS_STORAGE_KEY);
+  if (!savedData) return { records: [], quarantined: [], error: null };
+
+  try {
+    return { ...parseStoredBreakRecords(savedData), error: null };
+  } catch (error) {
+    if (!(error instanceof BreakStorageError)) throw error;
+    console.error('Error loading saved break records:', error);
+    return { records: [], quarantined: [], error };
+  }
+};
+
+export const loadQuarantinedBreakRecords = (): QuarantinedBreakRecord[] => {
+  const saved = localStorage.getItem(BREAK_RECORDS_QUARANTINE_STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved) as QuarantinedBreakRecord[];
+  } catch (error) {
+    console.error('Error reading quarantined break records:', error);
+    return [];
+  }
+};
+
+/**
+ * Keeps rejected records out of the board without losing them: they move from the saved records
+ * to the quarantine, so the next load does not set them aside a second time. Returns the records
+ * moved, which are none when another tab already moved them.
+ */
+export const quarantineBreakRecords = () => withStorageLock(BREAK_RECORDS_STORAGE_KEY, () => {
+  const savedData = localStorage.getItem(BREAK_RECORDS_STORAGE_KEY);
+  if (!savedData) return [];
+
+  const { records, quarantined } = parseStoredBreakRecords(savedData);
+  if (quarantined.length > 0) {
+    localStorage.setItem(
+      BREAK_RECORDS_QUARANTINE_STORAGE_KEY,
+      JSON.stringify([...loadQuarantinedBreakRecords(), ...quarantined])
+    );
+    localStorage.setItem(BREAK_RECORDS_STORAGE_KEY, serializeBreakRecords(records));
+  }
+  return quarantined;
+});
+
+// Moves an unreadable payload aside so the tracker can start again from the shared records
+export const discardUnreadableBreakRecords = (rawData: string) => {
+  localStorage.setItem(BREAK_RECORDS_BACKUP_STORAGE_KEY, rawData);
+  localStorage.removeItem(BREAK_RECORDS_STORAGE_KEY);
+};
@@ -0,0 +1,13 @@
+import { BreakRecord, getRecordDuration } from '@/lib/break-records';
+
+// Minutes since midnight for a local "HH:mm" time, as used for shift and quiet-hour times
+export const toMinutesOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Only breaks with a recorded end have a duration; running and unclosed breaks give null
+export const getRecordDurationMinutes = (record: BreakRecord) => {
+  const duration = getRecordDuration(record);
+  return duration === null ? null : duration / 60000;
+};
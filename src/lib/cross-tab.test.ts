@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { BreakRecord } from '@/lib/break-records';
+import { mergeTabChanges } from '@/lib/cross-tab';
+
+const record = (id: string, changes: Partial<BreakRecord> = {}): BreakRecord => ({
+  id,
+  associateId: id,
+  name: `Associate ${id}`,
+  reason: '',
+  breakType: 'lunch',
+  startTime: new Date('2026-10-19T12:00:00.000Z'),
+  status: 'active',
+  ...changes,
+});
+
+describe('mergeTabChanges', () => {
+  it('keeps changes made to different fields of the same record in each tab', () => {
+    const base = [record('a')];
+    const ended = new Date('2026-10-19T12:25:00.000Z');
+    const mine = [record('a', { reason: 'Doctor' })];
+    const theirs = [record('a', { endTime: ended, status: 'completed' })];
+
+    expect(mergeTabChanges(base, mine, theirs)).toEqual([
+      record('a', { reason: 'Doctor', endTime: ended, status: 'completed' }),
+    ]);
+  });
+
+  it('adds records started in either tab', () => {
+    const base = [record('a')];
+    const mine = [record('a'), record('b', { startTime: new Date('2026-10-19T12:05:00.000Z') })];
+    const theirs = [record('a'), record('c', { startTime: new Date('2026-10-19T12:10:00.000Z') })];
+
+    expect(mergeTabChanges(base, mine, theirs).map(merged => merged.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('removes a record deleted in this tab', () => {
+    const base = [record('a'), record('b')];
+    const mine = [record('a')];
+    const theirs = [record('a'), record('b')];
+
+    expect(mergeTabChanges(base, mine, theirs).map(merged => merged.id)).toEqual(['a']);
+  });
+
+  it('follows a deletion made in the other tab unless this tab changed the record since', () => {
+    const base = [record('a'), record('b')];
+    const theirs: BreakRecord[] = [];
+
+    expect(mergeTabChanges(base, base, theirs)).toEqual([]);
+    expect(mergeTabChanges(base, [record('a'), record('b', { reason: 'Doctor' })], theirs)).toEqual([
+      record('b', { reason: 'Doctor' }),
+    ]);
+  });
+
+  it('prefers this tab when both changed the same field', () => {
+    const base = [record('a')];
+    const mine = [record('a', { reason: 'Doctor' })];
+    const theirs = [record('a', { reason: 'Called away' })];
+
+    expect(mergeTabChanges(base, mine, theirs)[0].reason).toBe('Doctor');
+  });
+});
@@ -0,0 +1,78 @@
+import { BreakRecord } from '@/lib/break-records';
+
+/**
+ * Runs `update` while holding the Web Lock named `key`. Read-modify-writes of a local storage key
+ * take the lock of the same name, so two tabs never read the same copy and overwrite each other's
+ * changes. Browsers without Web Locks run it straight away.
+ */
+export const withStorageLock = async <T,>(key: string, update: () => T | Promise<T>): Promise<T> => {
+  if (!navigator.locks) return update();
+  return navigator.locks.request(key, update);
+};
+
+const sameValue = (a: unknown, b: unknown) => {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  // Nested values such as a correction are compared by content
+  if (typeof a === 'object' && a && typeof b === 'object' && b) return JSON.stringify(a) === JSON.stringify(b);
+  return a === b;
+};
+
+export const sameRecord = (a: BreakRecord, b: BreakRecord) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof BreakRecord>;
+  return [...keys].every(key => sameValue(a[key], b[key]));
+};
+
+export const sameRecords = (a: BreakRecord[], b: BreakRecord[]) => {
+  return a.length === b.length && a.every((record, index) => sameRecord(record, b[index]));
+};
+
+// True when `mine` adds, edits or removes anything compared with `base`
+export const hasLocalChanges = (base: BreakRecord[], mine: BreakRecord[]) => {
+  if (base === mine) return false;
+  const baseById = new Map(base.map(record => [record.id, record]));
+  const mineIds = new Set(mine.map(record => record.id));
+  return base.some(record => !mineIds.has(record.id))
+    || mine.some(record => !baseById.has(record.id) || !sameRecord(baseById.get(record.id), record));
+};
+
+// Field by field, so one tab ending a break and another editing its reason both survive
+const mergeRecord = (base: BreakRecord | undefined, mine: BreakRecord, theirs: BreakRecord | undefined) => {
+  if (!base || !theirs) return mine;
+  const merged = { ...theirs };
+  const keys = new Set([...Object.keys(base), ...Object.keys(mine)]) as Set<keyof BreakRecord>;
+  keys.forEach(key => {
+    if (!sameValue(base[key], mine[key])) {
+      (merged as Record<keyof BreakRecord, unknown>)[key] = mine[key];
+    }
+  });
+  return merged;
+};
+
+/**
+ * Three-way merge of break records between browser tabs: applies what this tab changed since
+ * `base` (the last copy it read or wrote) on top of `theirs` (what another tab has saved since).
+ */
+export const mergeTabChanges = (base: BreakRecord[], mine: BreakRecord[], theirs: BreakRecord[]) => {
+  const baseById = new Map(base.map(record => [record.id, record]));
+  const mineById = new Map(mine.map(record => [record.id, record]));
+  const theirsIds = new Set(theirs.map(record => record.id));
+
+  const merged = theirs
+    // Removed here since the base, e.g. deleted or cleared in this tab
+    .filter(record => !baseById.has(record.id) || mineById.has(record.id))
+    .map(record => {
+      const local = mineById.get(record.id);
+      const original = baseById.get(record.id);
+      if (!local || (original && sameRecord(original, local))) return record;
+      return mergeRecord(original, local, record);
+    });
+
+  // Added here, or kept here while the other tab removed a copy this tab has since changed
+  mine.forEach(record => {
+    if (theirsIds.has(record.id)) return;
+    const original = baseById.get(record.id);
+    if (!original || !sameRecord(original, record)) merged.push(record);
+  });
+
+  return merged.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+};
@@ -0,0 +1,31 @@
+import { endOfDay, format, isSameDay, startOfDay } from 'date-fns';
+import { BreakRecord } from '@/lib/break-records';
+
+export interface DayRange {
+  from: Date;
+  to: Date;
+}
+
+export const isToday = (range: DayRange, now = new Date()) =>
+  isSameDay(range.from, now) && isSameDay(range.to, now);
+
+// A break belongs to every day it overlaps, so one still running from yesterday shows up today
+export const isRecordInRange = (record: BreakRecord, range: DayRange, now = new Date()) => {
+  const rangeStart = startOfDay(range.from).getTime();
+  const rangeEnd = endOfDay(range.to).getTime();
+  // An unclosed break stopped being tracked when its shift closed
+  const recordEnd = (record.endTime ?? (record.status === 'unclosed' ? record.archivedAt : undefined) ?? now).getTime();
+  return record.startTime.getTime() <= rangeEnd && recordEnd >= rangeStart;
+};
+
+export const formatRangeLabel = (range: DayRange, now = new Date()) => {
+  if (isToday(range, now)) return 'Today';
+  if (isSameDay(range.from, range.to)) return format(range.from, 'EEE, MMM d, yyyy');
+  return `${format(range.from, 'MMM d')} – ${format(range.to, 'MMM d, yyyy')}`;
+};
+
+export const formatRangeForFileName = (range: DayRange) => {
+  const from = format(range.from, 'yyyy-MM-dd');
+  const to = format(range.to, 'yyyy-MM-dd');
+  return from === to ? from : `${from}_to_${to}`;
+};
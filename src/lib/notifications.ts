@@ -0,0 +1,130 @@
+import { AlertLevel, BreakAlert } from '@/lib/break-alerts';
+import { toMinutesOfDay } from '@/lib/break-time';
+
+export type SoundId = 'none' | 'chime' | 'beep' | 'bell';
+
+export interface NotificationSettings {
+  desktopEnabled: boolean;
+  soundEnabled: boolean;
+  // 0 to 1
+  volume: number;
+  sounds: Record<AlertLevel, SoundId>;
+  notifyOn: Record<AlertLevel, boolean>;
+  quietHours: {
+    enabled: boolean;
+    // Local "HH:mm"; the range may wrap past midnight
+    start: string;
+    end: string;
+  };
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  desktopEnabled: false,
+  soundEnabled: false,
+  volume: 0.6,
+  sounds: { warning: 'chime', overtime: 'bell' },
+  notifyOn: { warning: true, overtime: true },
+  quietHours: { enabled: false, start: '22:00', end: '06:00' },
+};
+
+export const SOUND_OPTIONS: { id: SoundId; label: string }[] = [
+  { id: 'chime', label: 'Chime' },
+  { id: 'beep', label: 'Beep' },
+  { id: 'bell', label: 'Bell' },
+  { id: 'none', label: 'No sound' },
+];
+
+// Frequencies (Hz) played one after another for each sound
+const SOUND_NOTES: Record<Exclude<SoundId, 'none'>, { notes: number[]; type: OscillatorType; noteLength: number }> = {
+  chime: { notes: [880, 1320], type: 'sine', noteLength: 0.25 },
+  beep: { notes: [1000, 1000, 1000], type: 'square', noteLength: 0.12 },
+  bell: { notes: [660, 990, 660, 990], type: 'triangle', noteLength: 0.3 },
+};
+
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = () => {
+  if (!audioContext) {
+    audioContext = new AudioContext();
+  }
+  // Browsers start the context suspended until a user gesture; resume whenever we can
+  if (audioContext.state === 'suspended') {
+    void audioContext.resume();
+  }
+  return audioContext;
+};
+
+export const playSound = (sound: SoundId, volume: number) => {
+  if (sound === 'none' || volume <= 0) return;
+
+  try {
+    const context = getAudioContext();
+    const { notes, type, noteLength } = SOUND_NOTES[sound];
+    const gap = noteLength * 0.2;
+
+    notes.forEach((frequency, index) => {
+      const startAt = context.currentTime + index * (noteLength + gap);
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+
+      oscillator.type = type;
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(volume, startAt);
+      gain.gain.exponentialRampToValueAtTime(0.001, startAt + noteLength);
+
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(startAt);
+      oscillator.stop(startAt + noteLength);
+    });
+  } catch (error) {
+    console.error('Error playing alert sound:', error);
+  }
+};
+
+export const isWithinQuietHours = (settings: NotificationSettings, now: Date) => {
+  const { enabled, start, end } = settings.quietHours;
+  if (!enabled || start === end) return false;
+
+  const current = now.getHours() * 60 + now.getMinutes();
+  const startMinutes = toMinutesOfDay(start);
+  const endMinutes = toMinutesOfDay(end);
+
+  return startMinutes < endMinutes
+    ? current >= startMinutes && current < endMinutes
+    : current >= startMinutes || current < endMinutes;
+};
+
+export const isDesktopNotificationSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestDesktopPermission = async () => {
+  if (!isDesktopNotificationSupported()) return 'denied' as NotificationPermission;
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+/**
+ * Sends the desktop notification and sound for a newly raised alert, honouring the
+ * station's event choices and quiet hours.
+ */
+export const notifyAlert = (alert: BreakAlert, settings: NotificationSettings, now = new Date()) => {
+  if (!settings.notifyOn[alert.level] || isWithinQuietHours(settings, now)) return;
+
+  if (settings.soundEnabled) {
+    playSound(settings.sounds[alert.level], settings.volume);
+  }
+
+  if (settings.desktopEnabled && isDesktopNotificationSupported() && Notification.permission === 'granted') {
+    const title = alert.level === 'overtime'
+      ? `Overtime: ${alert.associateName}`
+      : `Break running long: ${alert.associateName}`;
+    const notification = new Notification(title, {
+      body: `${alert.breakTypeName} passed ${alert.thresholdMinutes} minutes`,
+      tag: alert.id,
+      requireInteraction: alert.level === 'overtime',
+    });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  }
+};
@@ -0,0 +1,43 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { Associate } from '@/lib/roster';
+
+type AssociateRow = Tables<'associates'>;
+
+export const fromAssociateRow = (row: AssociateRow): Associate => ({
+  id: row.id,
+  displayName: row.display_name,
+  badgeNumber: row.badge_number,
+  team: row.team,
+  shift: row.shift,
+  active: row.active,
+});
+
+export const toAssociateRow = (associate: Associate): TablesInsert<'associates'> => ({
+  id: associate.id,
+  display_name: associate.displayName.trim(),
+  badge_number: associate.badgeNumber.trim(),
+  team: associate.team.trim(),
+  shift: associate.shift.trim(),
+  active: associate.active,
+});
+
+export const fetchAssociates = async () => {
+  const { data, error } = await supabase
+    .from('associates')
+    .select('*')
+    .order('display_name', { ascending: true });
+
+  if (error) throw error;
+  return data.map(fromAssociateRow);
+};
+
+export const saveAssociates = async (associates: Associate[]) => {
+  if (associates.length === 0) return;
+
+  const { error } = await supabase
+    .from('associates')
+    .upsert(associates.map(toAssociateRow));
+
+  if (error) throw error;
+};
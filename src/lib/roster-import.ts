@@ -0,0 +1,134 @@
+import * as XLSX from 'xlsx-js-style';
+import { Associate, createAssociateId, findAssociateByBadge, normalizeName } from '@/lib/roster';
+
+export type RosterField = 'displayName' | 'badgeNumber' | 'team' | 'shift';
+
+// Column index for each roster field; null when the file has no such column
+export type ColumnMapping = Record<RosterField, number | null>;
+
+export interface Spreadsheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export type ImportAction = 'add' | 'update' | 'skip';
+
+export interface ImportRow {
+  rowNumber: number;
+  action: ImportAction;
+  note: string;
+  associate: Associate;
+}
+
+export const ROSTER_FIELDS: { field: RosterField; label: string; required: boolean }[] = [
+  { field: 'displayName', label: 'Name', required: true },
+  { field: 'badgeNumber', label: 'Badge ID', required: false },
+  { field: 'team', label: 'Team', required: false },
+  { field: 'shift', label: 'Shift', required: false },
+];
+
+const HEADER_HINTS: Record<RosterField, RegExp> = {
+  displayName: /name|associate|employee/i,
+  badgeNumber: /badge|id|number|barcode/i,
+  team: /team|department|dept|area/i,
+  shift: /shift/i,
+};
+
+export const readSpreadsheet = async (file: File): Promise<Spreadsheet> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { headers: [], rows: [] };
+
+  const [headerRow = [], ...rows] = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: false,
+    defval: '',
+    blankrows: false,
+  });
+
+  return {
+    headers: headerRow.map(cell => String(cell).trim()),
+    rows: rows.map(row => row.map(cell => String(cell ?? '').trim())),
+  };
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  // Match the more specific fields first so "Badge ID" is not taken as a name column
+  for (const field of ['shift', 'team', 'badgeNumber', 'displayName'] as RosterField[]) {
+    const index = headers.findIndex((header, i) => !used.has(i) && HEADER_HINTS[field].test(header));
+    mapping[field] = index === -1 ? null : index;
+    if (index !== -1) used.add(index);
+  }
+
+  return mapping;
+};
+
+const cellValue = (row: string[], index: number | null) => index === null ? '' : (row[index] ?? '').trim();
+
+/**
+ * Works out what importing each row would do. Existing associates are matched by badge,
+ * then by name; rows that repeat an earlier row in the same file are skipped.
+ */
+export const planRosterImport = (rows: string[][], mapping: ColumnMapping, roster: Associate[]): ImportRow[] => {
+  const seenBadges = new Set<string>();
+  const seenNames = new Set<string>();
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const imported = {
+      displayName: cellValue(row, mapping.displayName).replace(/\s+/g, ' '),
+      badgeNumber: cellValue(row, mapping.badgeNumber),
+      team: cellValue(row, mapping.team),
+      shift: cellValue(row, mapping.shift),
+    };
+    const badgeKey = imported.badgeNumber.toLowerCase();
+    const nameKey = normalizeName(imported.displayName);
+
+    const skip = (note: string): ImportRow => ({
+      rowNumber,
+      action: 'skip',
+      note,
+      associate: { id: '', active: true, ...imported },
+    });
+
+    if (!imported.displayName) return skip('No name');
+    if ((badgeKey && seenBadges.has(badgeKey)) || (!badgeKey && seenNames.has(nameKey))) {
+      return skip('Duplicate of an earlier row');
+    }
+    if (badgeKey) seenBadges.add(badgeKey);
+    seenNames.add(nameKey);
+
+    const existing = findAssociateByBadge(roster, imported.badgeNumber) ||
+      roster.find(associate =>
+        normalizeName(associate.displayName) === nameKey &&
+        (!imported.badgeNumber || !associate.badgeNumber)
+      );
+
+    if (!existing) {
+      return {
+        rowNumber,
+        action: 'add',
+        note: 'New associate',
+        associate: { id: createAssociateId(), active: true, ...imported },
+      };
+    }
+
+    // Blank cells never wipe out what the roster already has
+    const updated: Associate = {
+      ...existing,
+      displayName: imported.displayName,
+      badgeNumber: imported.badgeNumber || existing.badgeNumber,
+      team: imported.team || existing.team,
+      shift: imported.shift || existing.shift,
+      active: true,
+    };
+    const changed = (Object.keys(updated) as (keyof Associate)[]).some(key => updated[key] !== existing[key]);
+
+    return changed
+      ? { rowNumber, action: 'update', note: `Updates ${existing.displayName}`, associate: updated }
+      : { rowNumber, action: 'skip', note: `Already in roster as ${existing.displayName}`, associate: existing };
+  });
+};
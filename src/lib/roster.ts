@@ -0,0 +1,47 @@
+import { BreakRecord } from '@/lib/break-records';
+
+export interface Associate {
+  id: string;
+  displayName: string;
+  badgeNumber: string;
+  team: string;
+  shift: string;
+  active: boolean;
+}
+
+export const createAssociateId = () => crypto.randomUUID();
+
+export const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Matches records by roster ID, falling back to a case-insensitive name match for
+ * records created before the roster existed.
+ */
+export const isRecordForAssociate = (record: BreakRecord, associate: Pick<Associate, 'id' | 'displayName'>) => {
+  if (record.associateId) return record.associateId === associate.id;
+  return normalizeName(record.name) === normalizeName(associate.displayName);
+};
+
+export const findActiveBreak = (records: BreakRecord[], associate: Pick<Associate, 'id' | 'displayName'>) => {
+  return records.find(record => record.status === 'active' && isRecordForAssociate(record, associate));
+};
+
+export const findAssociateByBadge = (associates: Associate[], badgeNumber: string) => {
+  const badge = badgeNumber.trim().toLowerCase();
+  if (!badge) return undefined;
+  return associates.find(associate => associate.badgeNumber.trim().toLowerCase() === badge);
+};
+
+export const validateAssociate = (associate: Associate, roster: Associate[]): string | null => {
+  if (!associate.displayName.trim()) {
+    return 'Display name is required';
+  }
+
+  const others = roster.filter(other => other.id !== associate.id);
+  const duplicateBadge = findAssociateByBadge(others, associate.badgeNumber);
+  if (duplicateBadge) {
+    return `Badge ${associate.badgeNumber} already belongs to ${duplicateBadge.displayName}`;
+  }
+
+  return null;
+};
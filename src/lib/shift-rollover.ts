@@ -0,0 +1,23 @@
+import { getShiftWindow } from '@/lib/break-allowance';
+import { BreakRecord } from '@/lib/break-records';
+
+/**
+ * Returns the most recent close at or before `now` and the next one after it.
+ */
+export const getShiftCloseTimes = (shiftCloseTime: string, now: Date) => {
+  const { start, end } = getShiftWindow([shiftCloseTime], now);
+  return { lastClose: start, nextClose: end };
+};
+
+export const isOnBoard = (record: BreakRecord) => !record.archivedAt;
+
+// Records on the board that started before the close belong to the closed shift
+export const findRecordsToArchive = (records: BreakRecord[], closeAt: Date) => {
+  return records.filter(record => isOnBoard(record) && record.startTime < closeAt);
+};
+
+export const archiveRecord = (record: BreakRecord, archivedAt: Date): BreakRecord => ({
+  ...record,
+  archivedAt,
+  status: record.status === 'active' ? 'unclosed' : record.status,
+});
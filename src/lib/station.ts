@@ -0,0 +1,23 @@
+const STATION_ID_STORAGE_KEY = 'breakTimeTrackerStationId';
+const STATION_NAME_STORAGE_KEY = 'breakTimeTrackerStationName';
+
+export const getStationId = () => {
+  let stationId = localStorage.getItem(STATION_ID_STORAGE_KEY);
+  if (!stationId) {
+    stationId = `station-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    localStorage.setItem(STATION_ID_STORAGE_KEY, stationId);
+  }
+  return stationId;
+};
+
+export const getStationName = () => {
+  return localStorage.getItem(STATION_NAME_STORAGE_KEY) || `Station ${getStationId().slice(-4).toUpperCase()}`;
+};
+
+export const saveStationName = (name: string) => {
+  if (name.trim()) {
+    localStorage.setItem(STATION_NAME_STORAGE_KEY, name.trim());
+  } else {
+    localStorage.removeItem(STATION_NAME_STORAGE_KEY);
+  }
+};
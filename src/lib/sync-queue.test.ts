@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Tables } from '@/integrations/supabase/types';
+import { fetchBreakRecordRow, updateBreakRecordRow } from '@/lib/break-records-api';
+import { SyncOperation, replayOperation } from '@/lib/sync-queue';
+
+vi.mock('@/lib/break-records-api', () => ({
+  archiveBreakRecordRows: vi.fn(),
+  deleteBreakRecord: vi.fn(),
+  fetchBreakRecordRow: vi.fn(),
+  insertBreakRecordRowIfMissing: vi.fn(),
+  updateBreakRecordRow: vi.fn(),
+  upsertBreakRecordRow: vi.fn(),
+}));
+
+vi.mock('@/lib/auth-api', () => ({
+  hasValidSession: vi.fn(async () => true),
+}));
+
+const fetchRow = vi.mocked(fetchBreakRecordRow);
+const updateRow = vi.mocked(updateBreakRecordRow);
+
+const remoteRow = (changes: Partial<Tables<'break_records'>>): Tables<'break_records'> => ({
+  id: 'a1-1',
+  associate_id: 'a1',
+  associate_name: 'Ana Lopez',
+  break_type: 'lunch',
+  start_time: '2026-10-19T12:00:00.000Z',
+  end_time: null,
+  status: 'active',
+  reason: '',
+  archived_at: null,
+  adjusted_at: null,
+  adjusted_by: null,
+  adjustment_reason: null,
+  created_at: '2026-10-19T12:00:00.000Z',
+  updated_at: '2026-10-19T12:00:00.000Z',
+  ...changes,
+});
+
+const endOperation = (endTime: string): SyncOperation => ({
+  id: 'op-1',
+  queuedAt: endTime,
+  associateName: 'Ana Lopez',
+  type: 'end',
+  recordId: 'a1-1',
+  endTime,
+  status: 'completed',
+});
+
+const reasonOperation = (reason: string, queuedAt: string): SyncOperation => ({
+  id: 'op-2',
+  queuedAt,
+  associateName: 'Ana Lopez',
+  type: 'reason',
+  recordId: 'a1-1',
+  reason,
+  previousReason: '',
+});
+
+describe('replayOperation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('ends a break nobody else has ended', async () => {
+    fetchRow.mockResolvedValue(remoteRow({}));
+
+    const conflict = await replayOperation(endOperation('2026-10-19T12:25:00.000Z'));
+
+    expect(conflict).toBeNull();
+    expect(updateRow).toHaveBeenCalledWith(
+      'a1-1',
+      { end_time: '2026-10-19T12:25:00.000Z', status: 'completed' },
+      expect.objectContaining({ occurredAt: '2026-10-19T12:25:00.000Z' })
+    );
+  });
+
+  it('keeps this station\'s end time when it is earlier', async () => {
+    fetchRow.mockResolvedValue(remoteRow({ end_time: '2026-10-19T12:30:00.000Z', status: 'completed' }));
+
+    const conflict = await replayOperation(endOperation('2026-10-19T12:25:00.000Z'));
+
+    expect(updateRow).toHaveBeenCalledWith('a1-1', { end_time: '2026-10-19T12:25:00.000Z', status: 'completed' }, expect.anything());
+    expect(conflict?.resolution).toMatch(/kept this station's earlier end time/);
+  });
+
+  it('keeps the other station\'s end time when it is earlier', async () => {
+    fetchRow.mockResolvedValue(remoteRow({ end_time: '2026-10-19T12:20:00.000Z', status: 'completed' }));
+
+    const conflict = await replayOperation(endOperation('2026-10-19T12:25:00.000Z'));
+
+    expect(updateRow).not.toHaveBeenCalled();
+    expect(conflict?.resolution).toMatch(/kept the other station's earlier end time/);
+  });
+
+  it('keeps the other station\'s end time when only a supervisor could change it', async () => {
+    fetchRow.mockResolvedValue(remoteRow({ end_time: '2026-10-19T12:30:00.000Z', status: 'completed' }));
+    updateRow.mockRejectedValueOnce({ code: '42501', message: 'Only supervisors can correct break times' });
+
+    const conflict = await replayOperation(endOperation('2026-10-19T12:25:00.000Z'));
+
+    expect(conflict?.resolution).toMatch(/only a supervisor can change/);
+  });
+
+  it('keeps the newer reason when this station edited it last', async () => {
+    fetchRow.mockResolvedValue(remoteRow({ reason: 'Called away', updated_at: '2026-10-19T12:10:00.000Z' }));
+
+    const conflict = await replayOperation(reasonOperation('Doctor', '2026-10-19T12:15:00.000Z'));
+
+    expect(updateRow).toHaveBeenCalledWith('a1-1', { reason: 'Doctor' }, expect.anything());
+    expect(conflict?.resolution).toMatch(/kept this station's newer edit/);
+  });
+
+  it('keeps the newer reason when the other station edited it last', async () => {
+    fetchRow.mockResolvedValue(remoteRow({ reason: 'Called away', updated_at: '2026-10-19T12:20:00.000Z' }));
+
+    const conflict = await replayOperation(reasonOperation('Doctor', '2026-10-19T12:15:00.000Z'));
+
+    expect(updateRow).not.toHaveBeenCalled();
+    expect(conflict?.resolution).toMatch(/kept the other station's newer edit/);
+    expect(conflict?.remoteValue).toBe('Called away');
+  });
+
+  it('discards an end time for a break deleted at another station', async () => {
+    fetchRow.mockResolvedValue(null);
+
+    const conflict = await replayOperation(endOperation('2026-10-19T12:25:00.000Z'));
+
+    expect(updateRow).not.toHaveBeenCalled();
+    expect(conflict?.resolution).toMatch(/deleted at another station/);
+  });
+
+  it('discards a reason for a break deleted at another station', async () => {
+    fetchRow.mockResolvedValue(null);
+
+    const conflict = await replayOperation(reasonOperation('Doctor', '2026-10-19T12:15:00.000Z'));
+
+    expect(updateRow).not.toHaveBeenCalled();
+    expect(conflict?.resolution).toMatch(/deleted at another station/);
+  });
+});
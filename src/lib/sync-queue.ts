@@ -0,0 +1,298 @@
+import type { TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import {
+  AuditContext,
+  archiveBreakRecordRows,
+  deleteBreakRecord,
+  fetchBreakRecordRow,
+  insertBreakRecordRowIfMissing,
+  updateBreakRecordRow,
+  upsertBreakRecordRow,
+} from '@/lib/break-records-api';
+import { hasValidSession } from '@/lib/auth-api';
+import { BreakStatus } from '@/lib/break-records';
+import { withStorageLock } from '@/lib/cross-tab';
+
+export const SYNC_QUEUE_STORAGE_KEY = 'breakTimeTrackerSyncQueue';
+export const SYNC_CONFLICTS_STORAGE_KEY = 'breakTimeTrackerSyncConflicts';
+export const LAST_SYNC_STORAGE_KEY = 'breakTimeTrackerLastSync';
+// Held by the tab replaying the queue, so two tabs never send the same change
+const SYNC_REPLAY_LOCK = 'breakTimeTrackerSyncReplay';
+
+interface BaseOperation {
+  id: string;
+  // ISO timestamp of when the change was made at this station
+  queuedAt: string;
+  associateName: string;
+  // How the audit log labels the change when the database cannot tell from the row, e.g. an undo
+  action?: AuditContext['action'];
+}
+
+export type SyncOperation =
+  | (BaseOperation & { type: 'start'; row: TablesInsert<'break_records'> })
+  | (BaseOperation & { type: 'end'; recordId: string; endTime: string; status: BreakStatus })
+  | (BaseOperation & { type: 'reason'; recordId: string; reason: string; previousReason: string })
+  // A supervisor's correction of the start and end times, with its justification
+  | (BaseOperation & { type: 'adjust'; recordId: string; changes: TablesUpdate<'break_records'> })
+  | (BaseOperation & { type: 'delete'; recordId: string })
+  | (BaseOperation & { type: 'archive'; recordIds: string[]; archivedAt: string; automatic?: boolean })
+  // Undo and redo put a record back exactly as it was at this station
+  | (BaseOperation & { type: 'restore'; row: TablesInsert<'break_records'> });
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export type SyncOperationInput = DistributiveOmit<SyncOperation, 'id' | 'queuedAt'>;
+
+export interface SyncConflict {
+  id: string;
+  detectedAt: string;
+  operation: SyncOperation['type'];
+  recordId?: string;
+  associateName: string;
+  resolution: string;
+  localValue?: string;
+  remoteValue?: string;
+}
+
+export type ConflictInput = Omit<SyncConflict, 'id' | 'detectedAt'>;
+
+/**
+ * Raised when the server cannot be reached; the operation stays queued for the next attempt.
+ */
+export class OfflineError extends Error {
+  constructor() {
+    super('Server unreachable');
+    this.name = 'OfflineError';
+  }
+}
+
+/**
+ * Raised when the server refuses a change because the sign-in has expired or been lost; the
+ * operation stays queued until the user is signed in again.
+ */
+export class SignedOutError extends Error {
+  constructor() {
+    super('Not signed in');
+    this.name = 'SignedOutError';
+  }
+}
+
+const readJson = <T,>(key: string, fallback: T): T => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return fallback;
+  try {
+    return JSON.parse(saved) as T;
+  } catch (error) {
+    console.error(`Error reading ${key}:`, error);
+    return fallback;
+  }
+};
+
+export const loadSyncQueue = () => readJson<SyncOperation[]>(SYNC_QUEUE_STORAGE_KEY, []);
+
+// Every open tab shares the queue, so changes are applied to the saved copy rather than a tab's own
+export const updateSyncQueue = (update: (queue: SyncOperation[]) => SyncOperation[]) => {
+  return withStorageLock(SYNC_QUEUE_STORAGE_KEY, () => {
+    const queue = update(loadSyncQueue());
+    localStorage.setItem(SYNC_QUEUE_STORAGE_KEY, JSON.stringify(queue));
+    return queue;
+  });
+};
+
+export const loadSyncConflicts = () => readJson<SyncConflict[]>(SYNC_CONFLICTS_STORAGE_KEY, []);
+
+export const updateSyncConflicts = (update: (conflicts: SyncConflict[]) => SyncConflict[]) => {
+  return withStorageLock(SYNC_CONFLICTS_STORAGE_KEY, () => {
+    const conflicts = update(loadSyncConflicts());
+    localStorage.setItem(SYNC_CONFLICTS_STORAGE_KEY, JSON.stringify(conflicts));
+    return conflicts;
+  });
+};
+
+// Waits for any other tab to finish replaying first; the queue is read fresh once it is this tab's turn
+export const withReplayLock = <T,>(replay: () => Promise<T>) => withStorageLock(SYNC_REPLAY_LOCK, replay);
+
+export const createOperation = (input: SyncOperationInput): SyncOperation => ({
+  ...input,
+  id: `op-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  queuedAt: new Date().toISOString(),
+} as SyncOperation);
+
+export const createConflict = (input: ConflictInput): SyncConflict => ({
+  ...input,
+  id: `conflict-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  detectedAt: new Date().toISOString(),
+});
+
+const formatTimestamp = (value: string) => new Date(value).toLocaleString('en-US');
+
+const isNetworkError = (error: unknown) => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+};
+
+// Raised by the database when a lead's change needs a supervisor
+const isPermissionError = (error: unknown) => (error as { code?: string })?.code === '42501';
+
+// An expired or missing token: 401 and 403 responses, PostgREST's JWT errors (PGRST30x) and the like
+const isAuthError = (error: unknown) => {
+  const { code, message, status } = (error ?? {}) as { code?: string; message?: string; status?: number };
+  return status === 401 || status === 403
+    || /^PGRST30\d$/.test(code ?? '')
+    || /jwt|not authenticated|invalid token|refresh token/i.test(message ?? '');
+};
+
+const run = async <T,>(request: () => Promise<T>) => {
+  try {
+    return await request();
+  } catch (error) {
+    if (isNetworkError(error)) throw new OfflineError();
+    // Row security refuses a signed-out request like any other, so check the session before blaming the change
+    if (isAuthError(error) || (isPermissionError(error) && !(await hasValidSession()))) {
+      throw new SignedOutError();
+    }
+    throw error;
+  }
+};
+
+/**
+ * Applies one queued operation to the server.
+ *
+ * Conflict rules:
+ * - A break deleted at another station stays deleted; queued end or reason changes for it are discarded.
+ * - When two stations end the same break, the earlier end time is kept. Only supervisors can move an
+ *   end time already recorded, so for anyone else the other station's end time stands.
+ * - When two stations edit the same reason, the most recent edit is kept.
+ * - A time correction replaces the times recorded at any station; a correction to a break deleted
+ *   at another station is discarded.
+ * - Closing a shift never overrides an end time recorded at another station, and a break
+ *   archived by another station keeps that station's close time.
+ * - Undo and redo overwrite the whole record, recreating it if another station deleted it.
+ *
+ * Returns a conflict entry when one of the rules had to discard a change, otherwise null.
+ */
+export const replayOperation = async (operation: SyncOperation): Promise<ConflictInput | null> => {
+  const base = {
+    operation: operation.type,
+    associateName: operation.associateName,
+  };
+  const context: AuditContext = { action: operation.action, occurredAt: operation.queuedAt };
+
+  switch (operation.type) {
+    case 'start': {
+      await run(() => insertBreakRecordRowIfMissing(operation.row, context));
+      return null;
+    }
+
+    case 'end': {
+      const remote = await run(() => fetchBreakRecordRow(operation.recordId));
+      if (!remote) {
+        return {
+          ...base,
+          recordId: operation.recordId,
+          resolution: 'Break was deleted at another station; this end time was discarded.',
+          localValue: formatTimestamp(operation.endTime),
+        };
+      }
+
+      if (remote.end_time && new Date(remote.end_time).getTime() !== new Date(operation.endTime).getTime()) {
+        let resolution = 'Break was ended at two stations; kept the other station\'s earlier end time.';
+        if (new Date(operation.endTime) < new Date(remote.end_time)) {
+          try {
+            await run(() => updateBreakRecordRow(operation.recordId, {
+              end_time: operation.endTime,
+              status: operation.status,
+            }, context));
+            resolution = 'Break was ended at two stations; kept this station\'s earlier end time.';
+          } catch (error) {
+            if (!isPermissionError(error)) throw error;
+            resolution = 'Break was ended at two stations; kept the other station\'s end time, which only a supervisor can change.';
+          }
+        }
+        return {
+          ...base,
+          recordId: operation.recordId,
+          resolution,
+          localValue: formatTimestamp(operation.endTime),
+          remoteValue: formatTimestamp(remote.end_time),
+        };
+      }
+
+      if (!remote.end_time) {
+        await run(() => updateBreakRecordRow(operation.recordId, {
+          end_time: operation.endTime,
+          status: operation.status,
+        }, context));
+      }
+      return null;
+    }
+
+    case 'reason': {
+      const remote = await run(() => fetchBreakRecordRow(operation.recordId));
+      if (!remote) {
+        return {
+          ...base,
+          recordId: operation.recordId,
+          resolution: 'Break was deleted at another station; this reason was discarded.',
+          localValue: operation.reason,
+        };
+      }
+
+      const editedElsewhere = remote.reason !== operation.previousReason && remote.reason !== operation.reason;
+      if (editedElsewhere && new Date(remote.updated_at) > new Date(operation.queuedAt)) {
+        return {
+          ...base,
+          recordId: operation.recordId,
+          resolution: 'Reason was edited at two stations; kept the other station\'s newer edit.',
+          localValue: operation.reason,
+          remoteValue: remote.reason,
+        };
+      }
+
+      await run(() => updateBreakRecordRow(operation.recordId, { reason: operation.reason }, context));
+      if (editedElsewhere) {
+        return {
+          ...base,
+          recordId: operation.recordId,
+          resolution: 'Reason was edited at two stations; kept this station\'s newer edit.',
+          localValue: operation.reason,
+          remoteValue: remote.reason,
+        };
+      }
+      return null;
+    }
+
+    case 'adjust': {
+      const remote = await run(() => fetchBreakRecordRow(operation.recordId));
+      if (!remote) {
+        return {
+          ...base,
+          recordId: operation.recordId,
+          resolution: 'Break was deleted at another station; this time correction was discarded.',
+          localValue: operation.changes.adjustment_reason ?? undefined,
+        };
+      }
+
+      await run(() => updateBreakRecordRow(operation.recordId, operation.changes, context));
+      return null;
+    }
+
+    case 'delete': {
+      await run(() => deleteBreakRecord(operation.recordId, context));
+      return null;
+    }
+
+    case 'archive': {
+      await run(() => archiveBreakRecordRows(operation.recordIds, operation.archivedAt, {
+        ...context,
+        automatic: operation.automatic,
+      }));
+      return null;
+    }
+
+    case 'restore': {
+      await run(() => upsertBreakRecordRow(operation.row, context));
+      return null;
+    }
+  }
+};
@@ -0,0 +1,77 @@
+import { BreakRecord } from '@/lib/break-records';
+import { sameRecord } from '@/lib/cross-tab';
+
+// Older entries are dropped once the history reaches this length
+export const UNDO_HISTORY_LIMIT = 50;
+
+export interface RecordChange {
+  id: string;
+  // Missing when the action created the record
+  before?: BreakRecord;
+  // Missing when the action removed the record
+  after?: BreakRecord;
+}
+
+export interface HistoryEntry {
+  id: string;
+  // Shown on the undo and redo buttons, e.g. "End break for Jane Doe"
+  label: string;
+  changes: RecordChange[];
+}
+
+export type HistoryDirection = 'undo' | 'redo';
+
+export const createHistoryEntry = (label: string, before: BreakRecord[], after: BreakRecord[]): HistoryEntry => {
+  const ids = [...new Set([...before, ...after].map(record => record.id))];
+  return {
+    id: `history-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    label,
+    changes: ids.map(id => ({
+      id,
+      before: before.find(record => record.id === id),
+      after: after.find(record => record.id === id),
+    })),
+  };
+};
+
+// The state each changed record goes back to (undo) or forward to (redo); undefined removes it
+export const getTargetStates = (entry: HistoryEntry, direction: HistoryDirection) => {
+  return entry.changes.map(change => ({
+    id: change.id,
+    record: direction === 'undo' ? change.before : change.after,
+  }));
+};
+
+// True when a record was changed after the entry, here or at another station, so applying it would undo that change
+export const isStale = (entry: HistoryEntry, direction: HistoryDirection, records: BreakRecord[]) => {
+  return entry.changes.some(change => {
+    const expected = direction === 'undo' ? change.after : change.before;
+    const current = records.find(record => record.id === change.id);
+    return expected && current ? !sameRecord(expected, current) : expected !== current;
+  });
+};
+
+export const applyTargetStates = (
+  records: BreakRecord[],
+  targets: { id: string; record?: BreakRecord }[]
+) => {
+  const targetIds = new Set(targets.map(target => target.id));
+  return [
+    ...records.filter(record => !targetIds.has(record.id)),
+    ...targets.flatMap(target => target.record ? [target.record] : []),
+  ].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+};
+
+const sameTime = (a?: Date, b?: Date) => a?.getTime() === b?.getTime();
+
+// Removing a break, or taking back its end or its shift close, is a correction only supervisors may make
+export const isCorrection = (entry: HistoryEntry, direction: HistoryDirection) => {
+  return entry.changes.some(change => {
+    const current = direction === 'undo' ? change.after : change.before;
+    const target = direction === 'undo' ? change.before : change.after;
+    if (!target) return true;
+    if (!current) return false;
+    return (!!current.endTime && !sameTime(current.endTime, target.endTime))
+      || (!!current.archivedAt && !sameTime(current.archivedAt, target.archivedAt));
+  });
+};
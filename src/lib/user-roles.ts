@@ -0,0 +1,33 @@
+export type UserRole = 'lead' | 'supervisor' | 'admin';
+
+export interface UserProfile {
+  userId: string;
+  email: string;
+  displayName: string;
+  role: UserRole;
+}
+
+// Ranked lowest first; each role can do everything the ones before it can
+const ROLE_RANKS: UserRole[] = ['lead', 'supervisor', 'admin'];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  lead: 'Lead',
+  supervisor: 'Supervisor',
+  admin: 'Admin',
+};
+
+export const isUserRole = (value: unknown): value is UserRole => ROLE_RANKS.includes(value as UserRole);
+
+/**
+ * Mirrors the database's `has_role` check, which is what actually enforces these rules;
+ * the app uses it to hide what the server would reject.
+ */
+export const hasRole = (profile: Pick<UserProfile, 'role'> | null | undefined, required: UserRole) => {
+  if (!profile) return false;
+  return ROLE_RANKS.indexOf(profile.role) >= ROLE_RANKS.indexOf(required);
+};
+
+// How the signed-in user appears in the audit log
+export const getProfileName = (profile: UserProfile | null) => {
+  return profile ? profile.displayName.trim() || profile.email : '';
+};
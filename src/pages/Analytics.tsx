@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from 'recharts';
+import { subDays } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { BarChart3 } from 'lucide-react';
+import AppNav from '@/components/AppNav';
+import DateRangePicker from '@/components/DateRangePicker';
+import { useBreakHistory } from '@/hooks/use-break-history';
+import { useBreakPolicy } from '@/hooks/use-break-policy';
+import { useRoster } from '@/hooks/use-roster';
+import {
+  NO_TEAM,
+  getAverageDurationByType,
+  getBreaksPerHour,
+  getDurationDistribution,
+  getOvertimeRateByTeam,
+  getRecordTeam,
+} from '@/lib/break-analytics';
+import { DayRange, isRecordInRange } from '@/lib/date-range';
+
+const ALL_TEAMS = 'all';
+
+const BLUE = '#2563eb';
+const SLATE = '#94a3b8';
+const RED = '#dc2626';
+const GREEN = '#16a34a';
+
+const breaksConfig = {
+  breaks: { label: 'Breaks', color: BLUE },
+} satisfies ChartConfig;
+
+const averageConfig = {
+  averageMinutes: { label: 'Average (min)', color: BLUE },
+  allowedMinutes: { label: 'Allowed (min)', color: SLATE },
+} satisfies ChartConfig;
+
+const overtimeConfig = {
+  overtimeRate: { label: 'Overtime rate (%)', color: RED },
+} satisfies ChartConfig;
+
+const distributionConfig = {
+  breaks: { label: 'Breaks', color: GREEN },
+} satisfies ChartConfig;
+
+const EmptyChart = () => (
+  <div className="h-64 flex items-center justify-center text-sm text-slate-500">
+    No ended breaks in this selection.
+  </div>
+);
+
+const Analytics = () => {
+  const { records, isLoading } = useBreakHistory();
+  const { associates } = useRoster();
+  const { policy } = useBreakPolicy();
+  const [dateRange, setDateRange] = useState<DayRange>(() => ({ from: subDays(new Date(), 6), to: new Date() }));
+  const [team, setTeam] = useState(ALL_TEAMS);
+
+  const teams = [...new Set(associates.map(associate => associate.team.trim() || NO_TEAM))].sort();
+
+  const filteredRecords = records.filter(record =>
+    isRecordInRange(record, dateRange) &&
+    (team === ALL_TEAMS || getRecordTeam(record, associates) === team)
+  );
+  const endedCount = filteredRecords.filter(record => record.endTime).length;
+
+  const breaksPerHour = getBreaksPerHour(filteredRecords);
+  const averageByType = getAverageDurationByType(filteredRecords, policy);
+  const overtimeByTeam = getOvertimeRateByTeam(filteredRecords, associates);
+  const distribution = getDurationDistribution(filteredRecords, policy);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-slate-50 p-4">
+      <div className="max-w-7xl mx-auto pt-8">
+        <div className="flex items-center justify-between mb-8 gap-4 flex-wrap">
+          <h1 className="text-3xl font-bold text-slate-800 flex items-center gap-3">
+            <BarChart3 className="h-8 w-8 text-blue-600" />
+            Analytics
+          </h1>
+          <AppNav />
+        </div>
+
+        <Card className="mb-8 shadow-lg border-slate-200">
+          <CardContent className="p-4 flex items-end gap-6 flex-wrap">
+            <div className="space-y-2">
+              <Label>Date range</Label>
+              <DateRangePicker
+                value={dateRange}
+                onChange={range => range && setDateRange(range)}
+                clearable={false}
+              />
+            </div>
+            <div className="space-y-2 w-48">
+              <Label>Team</Label>
+              <Select value={team} onValueChange={setTeam}>
+                <SelectTrigger aria-label="Team">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TEAMS}>All teams</SelectItem>
+                  {teams.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-sm text-slate-500 ml-auto">
+              {isLoading
+                ? 'Loading break history...'
+                : `${filteredRecords.length} breaks, ${endedCount} ended`}
+            </p>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="shadow-lg border-slate-200">
+            <CardHeader>
+              <CardTitle className="text-slate-700">Breaks per Hour</CardTitle>
+              <CardDescription>Breaks started in each hour of the day.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={breaksConfig} className="h-64 w-full">
+                <BarChart data={breaksPerHour}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="hour" tickLine={false} axisLine={false} interval={2} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="breaks" fill="var(--color-breaks)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-lg border-slate-200">
+            <CardHeader>
+              <CardTitle className="text-slate-700">Average Duration by Break Type</CardTitle>
+              <CardDescription>Average length of ended breaks next to the allowed duration.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {averageByType.length === 0 ? <EmptyChart /> : (
+                <ChartContainer config={averageConfig} className="h-64 w-full">
+                  <BarChart data={averageByType}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="breakType" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={30} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="averageMinutes" fill="var(--color-averageMinutes)" radius={4} />
+                    <Bar dataKey="allowedMinutes" fill="var(--color-allowedMinutes)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-lg border-slate-200">
+            <CardHeader>
+              <CardTitle className="text-slate-700">Overtime Rate by Team</CardTitle>
+              <CardDescription>Share of ended breaks that went into overtime.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {overtimeByTeam.length === 0 ? <EmptyChart /> : (
+                <ChartContainer config={overtimeConfig} className="h-64 w-full">
+                  <BarChart data={overtimeByTeam}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="team" tickLine={false} axisLine={false} />
+                    <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={30} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="overtimeRate" fill="var(--color-overtimeRate)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-lg border-slate-200">
+            <CardHeader>
+              <CardTitle className="text-slate-700">Duration vs. Policy Limit</CardTitle>
+              <CardDescription>
+                Ended breaks grouped by length as a share of their allowed duration. Red bars ran past the limit.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {endedCount === 0 ? <EmptyChart /> : (
+                <ChartContainer config={distributionConfig} className="h-64 w-full">
+                  <BarChart data={distribution}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="bucket" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="breaks" radius={4}>
+                      {distribution.map(bucket => (
+                        <Cell key={bucket.bucket} fill={bucket.overLimit ? RED : GREEN} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Analytics;
@@ -0,0 +1,240 @@
+import { Link, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, ArrowLeft, CheckCircle, Clock, Download, Timer, User } from 'lucide-react';
+import { toast } from 'sonner';
+import AdjustedBadge from '@/components/AdjustedBadge';
+import AppNav from '@/components/AppNav';
+import { useBreakHistory } from '@/hooks/use-break-history';
+import { useBreakPolicy } from '@/hooks/use-break-policy';
+import { useRoster } from '@/hooks/use-roster';
+import { COMPLIANCE_WINDOW_DAYS, getAssociateBreakStats, getComplianceRate, getReasonCounts } from '@/lib/associate-stats';
+import { getBreakTypePolicy } from '@/lib/break-policy';
+import { downloadBreakReport } from '@/lib/break-report';
+import { formatDate, formatDuration, formatTime, getRecordDuration } from '@/lib/break-records';
+import { isRecordForAssociate } from '@/lib/roster';
+
+const statusStyles: Record<string, string> = {
+  active: 'bg-blue-100 text-blue-800 border-blue-200',
+  completed: 'bg-green-100 text-green-800 border-green-200',
+  overtime: 'bg-red-100 text-red-800 border-red-200',
+  unclosed: 'bg-orange-100 text-orange-800 border-orange-200',
+};
+
+const formatMinutes = (minutes: number | null) => {
+  return minutes === null ? '—' : formatDuration(minutes * 60000);
+};
+
+const AssociateProfile = () => {
+  const { id } = useParams<{ id: string }>();
+  const { associates, isLoading: isRosterLoading } = useRoster();
+  const { records, isLoading: isHistoryLoading } = useBreakHistory();
+  const { policy } = useBreakPolicy();
+
+  const associate = associates.find(candidate => candidate.id === id);
+  const breaks = associate
+    ? records
+      .filter(record => isRecordForAssociate(record, associate))
+      .sort((a, b) => b.startTime.getTime() - a.startTime.getTime())
+    : [];
+
+  const stats = getAssociateBreakStats(breaks);
+  const complianceRate = getComplianceRate(breaks, new Date());
+  const reasons = getReasonCounts(breaks);
+
+  const downloadHistory = () => {
+    if (!associate) return;
+
+    const safeName = associate.displayName.trim().replace(/[^a-z0-9]+/gi, '_').toLowerCase();
+    const fileName = `break_history_${safeName}_${new Date().toISOString().split('T')[0]}.xlsx`;
+    downloadBreakReport(breaks, policy, associates, fileName);
+    toast.success('Excel file downloaded!', {
+      description: fileName
+    });
+  };
+
+  if (!associate) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-slate-50 p-4">
+        <div className="max-w-5xl mx-auto pt-8 text-center space-y-4">
+          <p className="text-slate-600">
+            {isRosterLoading ? 'Loading associate...' : 'This associate is not on the roster.'}
+          </p>
+          <Link to="/associates" className="text-blue-600 underline">Back to the roster</Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-slate-50 p-4">
+      <div className="max-w-5xl mx-auto pt-8">
+        <div className="flex items-center justify-between flex-wrap gap-4 mb-8">
+          <div>
+            <Link to="/associates" className="text-sm text-blue-600 flex items-center gap-1 mb-2">
+              <ArrowLeft className="h-4 w-4" />
+              Roster
+            </Link>
+            <h1 className="text-3xl font-bold text-slate-800 flex items-center gap-3">
+              <User className="h-8 w-8 text-blue-600" />
+              {associate.displayName}
+              {!associate.active && <Badge variant="outline" className="text-slate-500">Inactive</Badge>}
+            </h1>
+            <p className="mt-1 text-sm text-slate-500">
+              {[
+                associate.badgeNumber && `Badge ${associate.badgeNumber}`,
+                associate.team && `Team ${associate.team}`,
+                associate.shift && `Shift ${associate.shift}`,
+              ].filter(Boolean).join(' · ')}
+            </p>
+          </div>
+          <AppNav />
+        </div>
+
+        {/* Statistics Cards */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+          <Card className="bg-blue-50 border-blue-200">
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-blue-600">Average Duration</p>
+                  <p className="text-2xl font-bold text-blue-800">{formatMinutes(stats.averageMinutes)}</p>
+                </div>
+                <Clock className="h-8 w-8 text-blue-600" />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-slate-50 border-slate-200">
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-slate-600">Longest Break</p>
+                  <p className="text-2xl font-bold text-slate-800">{formatMinutes(stats.longestMinutes)}</p>
+                </div>
+                <Timer className="h-8 w-8 text-slate-600" />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-orange-50 border-orange-200">
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-orange-600">Overtime Breaks</p>
+                  <p className="text-2xl font-bold text-orange-800">{stats.overtimeCount}</p>
+                </div>
+                <AlertCircle className="h-8 w-8 text-orange-600" />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-green-50 border-green-200">
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-green-600">Compliance ({COMPLIANCE_WINDOW_DAYS} days)</p>
+                  <p className="text-2xl font-bold text-green-800">
+                    {complianceRate === null ? '—' : `${complianceRate}%`}
+                  </p>
+                </div>
+                <CheckCircle className="h-8 w-8 text-green-600" />
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="mb-8 shadow-lg border-slate-200">
+          <CardHeader>
+            <CardTitle className="text-slate-700">Reasons Entered</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {reasons.length === 0 ? (
+              <p className="text-sm text-slate-500">No reasons have been entered for this associate.</p>
+            ) : (
+              <div className="flex gap-2 flex-wrap">
+                {reasons.map(({ reason, count }) => (
+                  <Badge key={reason} variant="outline" className="text-slate-700">
+                    {reason} · {count}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-lg border-slate-200">
+          <CardHeader>
+            <CardTitle className="text-slate-700 flex items-center justify-between flex-wrap gap-4">
+              <span>Break History</span>
+              <div className="flex items-center gap-3">
+                <span className="text-sm font-normal text-slate-500">
+                  {stats.totalBreaks} breaks
+                  {stats.unclosedCount > 0 && `, ${stats.unclosedCount} unclosed`}
+                </span>
+                <Button
+                  onClick={downloadHistory}
+                  variant="outline"
+                  className="flex items-center gap-2"
+                  disabled={breaks.length === 0}
+                >
+                  <Download className="h-4 w-4" />
+                  Download Excel
+                </Button>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-blue-50">
+                    <TableHead className="font-semibold text-slate-700">Date</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Break Type</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Break Start</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Break End</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Duration</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Status</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {breaks.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-slate-500 py-8">
+                        {isHistoryLoading ? 'Loading break history...' : 'No breaks recorded for this associate.'}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    breaks.map(record => (
+                      <TableRow key={record.id} className="hover:bg-slate-50 transition-colors">
+                        <TableCell>{formatDate(record.startTime)}</TableCell>
+                        <TableCell>{getBreakTypePolicy(policy, record.breakType).name}</TableCell>
+                        <TableCell>{formatTime(record.startTime)}</TableCell>
+                        <TableCell>{record.endTime ? formatTime(record.endTime) : '—'}</TableCell>
+                        <TableCell>{record.endTime ? formatDuration(getRecordDuration(record)) : '—'}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline" className={`capitalize ${statusStyles[record.status]}`}>
+                              {record.status}
+                            </Badge>
+                            <AdjustedBadge adjustment={record.adjustment} />
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-slate-600">{record.reason}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AssociateProfile;
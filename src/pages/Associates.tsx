@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileUp, Pencil, Plus, Search, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import AppNav from '@/components/AppNav';
+import AssociateFormDialog from '@/components/AssociateFormDialog';
+import RosterImportDialog from '@/components/RosterImportDialog';
+import { useAuth } from '@/hooks/use-auth';
+import { useRoster } from '@/hooks/use-roster';
+import { Associate, createAssociateId, validateAssociate } from '@/lib/roster';
+import { hasRole } from '@/lib/user-roles';
+
+const emptyAssociate = (): Associate => ({
+  id: createAssociateId(),
+  displayName: '',
+  badgeNumber: '',
+  team: '',
+  shift: '',
+  active: true,
+});
+
+const Associates = () => {
+  const { associates, isLoading, saveAssociate, saveAssociates } = useRoster();
+  const [search, setSearch] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [editing, setEditing] = useState<Associate | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const { profile } = useAuth();
+  const canEditRoster = hasRole(profile, 'admin');
+
+  const query = search.trim().toLowerCase();
+  const visibleAssociates = associates.filter(associate => {
+    if (!showInactive && !associate.active) return false;
+    if (!query) return true;
+    return [associate.displayName, associate.badgeNumber, associate.team, associate.shift]
+      .some(field => field.toLowerCase().includes(query));
+  });
+
+  const handleSave = async (associate: Associate) => {
+    const error = validateAssociate(associate, associates);
+    if (error) {
+      toast.error('Associate not saved', { description: error });
+      return;
+    }
+
+    try {
+      await saveAssociate(associate);
+      setEditing(null);
+      toast.success(`${associate.displayName.trim()} saved`);
+    } catch (error) {
+      console.error('Error saving associate:', error);
+      toast.error('Failed to save associate');
+    }
+  };
+
+  const toggleActive = async (associate: Associate, active: boolean) => {
+    try {
+      await saveAssociate({ ...associate, active });
+      toast.success(`${associate.displayName} marked as ${active ? 'active' : 'inactive'}`);
+    } catch (error) {
+      console.error('Error updating associate:', error);
+      toast.error('Failed to update associate');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-slate-50 p-4">
+      <div className="max-w-5xl mx-auto pt-8">
+        <div className="flex items-center justify-between flex-wrap gap-4 mb-8">
+          <h1 className="text-3xl font-bold text-slate-800 flex items-center gap-3">
+            <Users className="h-8 w-8 text-blue-600" />
+            Associate Roster
+          </h1>
+          <AppNav />
+        </div>
+
+        <Card className="shadow-lg border-slate-200">
+          <CardHeader>
+            <CardTitle className="text-slate-700 flex items-center justify-between flex-wrap gap-4">
+              <span>Associates</span>
+              <div className="flex items-center gap-2 flex-wrap">
+                <div className="relative">
+                  <Search className="absolute left-2 top-3 h-4 w-4 text-slate-400" />
+                  <Input
+                    placeholder="Search roster"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className="pl-8 w-56 font-normal"
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm font-normal text-slate-600">
+                  <Switch checked={showInactive} onCheckedChange={setShowInactive} />
+                  Show inactive
+                </label>
+                {canEditRoster && (
+                  <>
+                    <Button onClick={() => setIsImportOpen(true)} variant="outline" className="flex items-center gap-2">
+                      <FileUp className="h-4 w-4" />
+                      Import
+                    </Button>
+                    <Button onClick={() => setEditing(emptyAssociate())} className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2">
+                      <Plus className="h-4 w-4" />
+                      Add Associate
+                    </Button>
+                  </>
+                )}
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-blue-50">
+                    <TableHead className="font-semibold text-slate-700">Name</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Badge</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Team</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Shift</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Active</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleAssociates.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-slate-500 py-8">
+                        {isLoading ? 'Loading roster...' : 'No associates found.'}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    visibleAssociates.map(associate => (
+                      <TableRow key={associate.id} className="hover:bg-slate-50 transition-colors">
+                        <TableCell className="font-medium">
+                          <Link to={`/associates/${associate.id}`} className="text-blue-700 hover:underline">
+                            {associate.displayName}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{associate.badgeNumber}</TableCell>
+                        <TableCell>{associate.team}</TableCell>
+                        <TableCell>{associate.shift}</TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={associate.active}
+                            onCheckedChange={(active) => toggleActive(associate, active)}
+                            disabled={!canEditRoster}
+                            aria-label={`${associate.displayName} active`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button onClick={() => setEditing(associate)} variant="ghost" size="sm" disabled={!canEditRoster}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <AssociateFormDialog
+          open={editing !== null}
+          associate={editing}
+          onOpenChange={(open) => !open && setEditing(null)}
+          onSubmit={handleSave}
+        />
+
+        <RosterImportDialog
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          roster={associates}
+          onImport={saveAssociates}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default Associates;
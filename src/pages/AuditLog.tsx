@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { format, subDays } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, ScrollText, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import AppNav from '@/components/AppNav';
+import DateRangePicker from '@/components/DateRangePicker';
+import { useAuditLog } from '@/hooks/use-audit-log';
+import { useBreakPolicy } from '@/hooks/use-break-policy';
+import {
+  AUDIT_ACTION_LABELS,
+  AuditAction,
+  filterAuditEntries,
+  formatAuditTime,
+  getAuditFieldChanges,
+  toAuditCsv,
+} from '@/lib/audit-log';
+import { downloadTextFile } from '@/lib/break-export';
+import { DayRange, formatRangeForFileName } from '@/lib/date-range';
+
+const ALL_ACTIONS = 'all';
+
+const actionStyles: Record<AuditAction, string> = {
+  start: 'bg-blue-100 text-blue-800 border-blue-200',
+  end: 'bg-green-100 text-green-800 border-green-200',
+  reason: 'bg-slate-100 text-slate-700 border-slate-200',
+  adjust: 'bg-indigo-100 text-indigo-800 border-indigo-200',
+  delete: 'bg-red-100 text-red-800 border-red-200',
+  close_shift: 'bg-orange-100 text-orange-800 border-orange-200',
+  import: 'bg-purple-100 text-purple-800 border-purple-200',
+  undo: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  redo: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+};
+
+const AuditLog = () => {
+  const { policy } = useBreakPolicy();
+  const [search, setSearch] = useState('');
+  const [action, setAction] = useState<AuditAction | null>(null);
+  // The last week by default; "All dates" loads the whole log
+  const [dateRange, setDateRange] = useState<DayRange | null>(() => ({ from: subDays(new Date(), 6), to: new Date() }));
+  const { entries, isLoading } = useAuditLog(dateRange, action);
+
+  const now = new Date();
+  const filteredEntries = filterAuditEntries(entries, { search, action, range: dateRange }, policy);
+
+  const exportCsv = () => {
+    const fileName = `break_audit_log_${dateRange ? formatRangeForFileName(dateRange) : format(now, 'yyyy-MM-dd')}.csv`;
+    downloadTextFile(toAuditCsv(filteredEntries, policy), fileName, 'text/csv;charset=utf-8');
+    toast.success('Audit log downloaded!', { description: fileName });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-slate-50 p-4">
+      <div className="max-w-7xl mx-auto pt-8">
+        <div className="flex items-center justify-between mb-8 gap-4 flex-wrap">
+          <h1 className="text-3xl font-bold text-slate-800 flex items-center gap-3">
+            <ScrollText className="h-8 w-8 text-blue-600" />
+            Audit Log
+          </h1>
+          <AppNav />
+        </div>
+
+        <Card className="mb-8 shadow-lg border-slate-200">
+          <CardContent className="p-4 flex items-end gap-6 flex-wrap">
+            <div className="space-y-2 w-72">
+              <Label htmlFor="auditSearch">Search</Label>
+              <div className="relative">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-slate-400" />
+                <Input
+                  id="auditSearch"
+                  placeholder="Associate, operator, station or value"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-8"
+                />
+              </div>
+            </div>
+            <div className="space-y-2 w-48">
+              <Label>Action</Label>
+              <Select
+                value={action ?? ALL_ACTIONS}
+                onValueChange={(value) => setAction(value === ALL_ACTIONS ? null : value as AuditAction)}
+              >
+                <SelectTrigger aria-label="Action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_ACTIONS}>All actions</SelectItem>
+                  {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(value => (
+                    <SelectItem key={value} value={value}>{AUDIT_ACTION_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Date range</Label>
+              <DateRangePicker value={dateRange} onChange={setDateRange} emptyLabel="All dates" clearLabel="All Dates" />
+            </div>
+            <Button
+              onClick={exportCsv}
+              variant="outline"
+              className="flex items-center gap-2 ml-auto"
+              disabled={isLoading || filteredEntries.length === 0}
+            >
+              <Download className="h-4 w-4" />
+              Export CSV
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-lg border-slate-200">
+          <CardHeader>
+            <CardTitle className="text-slate-700 flex items-center justify-between flex-wrap gap-4">
+              <span>Changes to Break Records</span>
+              <span className="text-sm font-normal text-slate-500">
+                {isLoading ? 'Loading audit log...' : `${filteredEntries.length} of ${entries.length} entries`}
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-blue-50">
+                    <TableHead className="font-semibold text-slate-700">Time</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Recorded At</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Actor</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Station</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Action</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Associate</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredEntries.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-slate-500 py-8">
+                        {entries.length === 0 && !search.trim() && !action
+                          ? `No changes recorded${dateRange ? ' in this period' : ' yet'}.`
+                          : 'No entries match these filters.'}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredEntries.map(entry => (
+                      <TableRow key={entry.id} className="hover:bg-slate-50 transition-colors align-top">
+                        <TableCell className="whitespace-nowrap">{formatAuditTime(entry.occurredAt, now)}</TableCell>
+                        <TableCell className="whitespace-nowrap text-slate-500">{formatAuditTime(entry.recordedAt, now)}</TableCell>
+                        <TableCell>{entry.actor}</TableCell>
+                        <TableCell>{entry.stationName}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={actionStyles[entry.action]}>
+                            {AUDIT_ACTION_LABELS[entry.action]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="font-medium">{entry.associateName}</TableCell>
+                        <TableCell>
+                          <ul className="space-y-0.5 text-sm">
+                            {getAuditFieldChanges(entry, policy).map(change => (
+                              <li key={change.field}>
+                                <span className="text-slate-500">{change.field}:</span>{' '}
+                                <span className="line-through text-slate-400">{change.before}</span>
+                                {change.before && change.after && ' → '}
+                                <span className="text-slate-800">{change.after}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
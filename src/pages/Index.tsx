@@ -1,97 +1,232 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Download, Copy, Trash2, Users, Timer, Clock, AlertCircle, CheckCircle } from 'lucide-react';
+import { Download, Copy, Pencil, Trash2, Users, Timer, Clock, AlertCircle, CheckCircle, ScanLine, Archive, HelpCircle, FileOutput, FileUp, Undo2, Redo2 } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { isSameDay } from 'date-fns';
 import { toast } from 'sonner';
-import * as XLSX from 'xlsx';
-
-interface BreakRecord {
-  id: string;
-  name: string;
-  start: string;
-  end: string;
-  duration: string;
-  reason: string;
-  startTime: Date;
-  endTime?: Date;
-  status: 'active' | 'completed' | 'overtime';
-}
+import { useAuth } from '@/hooks/use-auth';
+import { useBreakPolicy } from '@/hooks/use-break-policy';
+import {
+  getActiveBreakTypes,
+  getBreakTypePolicy,
+  getDurationLevel,
+  getWarningMinutes,
+  isActiveBreakType,
+} from '@/lib/break-policy';
+import { checkBreakAllowance } from '@/lib/break-allowance';
+import {
+  BreakRecord,
+  formatDate,
+  formatDuration,
+  formatTime,
+  getRecordDuration,
+  keepReasonsBeingEdited,
+  mergeIncomingRecord,
+  mergeSyncedRecords,
+} from '@/lib/break-records';
+import { loadBreakRecords, quarantineBreakRecords } from '@/lib/break-storage';
+import { downloadTextFile } from '@/lib/break-export';
+import { toBreakAdjustmentRow } from '@/lib/break-adjustment';
+import { BreakImportRow } from '@/lib/break-import';
+import { toBreakRecordRow } from '@/lib/break-records-api';
+import { downloadBreakReport } from '@/lib/break-report';
+import { Associate, findActiveBreak, findAssociateByBadge } from '@/lib/roster';
+import { LAST_SYNC_STORAGE_KEY } from '@/lib/sync-queue';
+import { getProfileName, hasRole } from '@/lib/user-roles';
+import { DayRange, formatRangeForFileName, formatRangeLabel, isRecordInRange } from '@/lib/date-range';
+import { archiveRecord, findRecordsToArchive, getShiftCloseTimes, isOnBoard } from '@/lib/shift-rollover';
+import { useBreakSync } from '@/hooks/use-break-sync';
+import { useCrossTabSync } from '@/hooks/use-cross-tab-sync';
+import { useUndoHistory } from '@/hooks/use-undo-history';
+import { useBreakRealtime } from '@/hooks/use-break-realtime';
+import { useRoster } from '@/hooks/use-roster';
+import { useBreakAlerts } from '@/hooks/use-break-alerts';
+import { useNotificationSettings } from '@/hooks/use-notification-settings';
+import { useTicker } from '@/hooks/use-ticker';
+import { notifyAlert } from '@/lib/notifications';
+import AdjustedBadge from '@/components/AdjustedBadge';
+import AlertsPanel from '@/components/AlertsPanel';
+import AppNav from '@/components/AppNav';
+import AssociatePicker from '@/components/AssociatePicker';
+import BreakAdjustDialog from '@/components/BreakAdjustDialog';
+import BreakImportDialog from '@/components/BreakImportDialog';
+import BreakPrintSheet, { PrintJob } from '@/components/BreakPrintSheet';
+import DateRangePicker from '@/components/DateRangePicker';
+import ExportDialog from '@/components/ExportDialog';
+import KioskMode, { KioskScanResult } from '@/components/KioskMode';
+import StationPresence from '@/components/StationPresence';
+import StorageRecovery from '@/components/StorageRecovery';
+import SyncStatus from '@/components/SyncStatus';
 
 const Index = () => {
-  const [associateName, setAssociateName] = useState('');
-  const [breakRecords, setBreakRecords] = useState<BreakRecord[]>([]);
-  const [currentTime, setCurrentTime] = useState(new Date());
-
-  // Update current time every second
+  const [selectedAssociate, setSelectedAssociate] = useState<Associate>();
+  // Read the local copy before the first render so the save effect never runs against an empty board
+  const [storedRecords] = useState(loadBreakRecords);
+  const [breakRecords, setBreakRecords] = useState<BreakRecord[]>(storedRecords.records);
+  const [storageError, setStorageError] = useState(storedRecords.error);
+  const currentTime = useTicker(1000);
+  const { policy } = useBreakPolicy();
+  const [selectedBreakType, setSelectedBreakType] = useState(policy.defaultBreakTypeId);
+  const [isKioskMode, setIsKioskMode] = useState(false);
+  // null shows the current shift's board; a range shows history
+  const [dateRange, setDateRange] = useState<DayRange | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [adjustingRecord, setAdjustingRecord] = useState<BreakRecord | null>(null);
+  const [printJob, setPrintJob] = useState<PrintJob | null>(null);
+  const finishPrint = useCallback(() => setPrintJob(null), []);
+  const reasonsBeforeEdit = useRef<Record<string, string>>({});
+  const recordButtonRef = useRef<HTMLButtonElement>(null);
+  const { associates } = useRoster();
+  const { profile } = useAuth();
+  const actorName = getProfileName(profile);
+  // The server refuses time corrections and deletes from anyone below supervisor
+  const canEditBreaks = hasRole(profile, 'supervisor');
+  const { settings: notificationSettings } = useNotificationSettings();
+  const breakAlerts = useBreakAlerts(breakRecords, policy, currentTime, alert => notifyAlert(alert, notificationSettings));
+  const keepTypedReasons = (prev: BreakRecord[], next: BreakRecord[]) =>
+    keepReasonsBeingEdited(prev, next, Object.keys(reasonsBeforeEdit.current));
+  const sync = useBreakSync({
+    onSynced: records => setBreakRecords(prev => keepTypedReasons(prev, mergeSyncedRecords(prev, records))),
+  });
+  const realtime = useBreakRealtime({
+    onRecordChanged: record => setBreakRecords(prev => keepTypedReasons(prev, mergeIncomingRecord(prev, record))),
+    onRecordDeleted: id => setBreakRecords(prev => prev.filter(record => record.id !== id)),
+  });
+
+  const { enqueue: enqueueSync } = sync;
+
+  // The sync hook replaces the local board with the shared records once online.
+  // Both dependencies keep their identity, so this runs once on mount.
   useEffect(() => {
-    const timer = setInterval(() => {
-      setCurrentTime(new Date());
-    }, 1000);
-    return () => clearInterval(timer);
-  }, []);
+    const { records: localRecords } = storedRecords;
+
+    if (storedRecords.quarantined.length > 0) {
+      quarantineBreakRecords()
+        .then(quarantined => {
+          if (quarantined.length === 0) return;
+          toast.warning(`${quarantined.length} saved record${quarantined.length === 1 ? '' : 's'} could not be read`, {
+            description: 'They were set aside and are not shown on the board.',
+            duration: 10000,
+            action: {
+              label: 'Download',
+              onClick: () => downloadTextFile(JSON.stringify(quarantined, null, 2), 'break_records_quarantined.json', 'application/json'),
+            },
+          });
+        })
+        .catch(error => console.error('Error setting aside unreadable break records:', error));
+    }
+
+    // First run against the shared table: upload what this browser already had
+    if (!localStorage.getItem(LAST_SYNC_STORAGE_KEY)) {
+      localRecords.forEach(record => {
+        enqueueSync({ type: 'start', associateName: record.name, row: toBreakRecordRow(record) });
+      });
+    }
+  }, [storedRecords, enqueueSync]);
+
+  // Keep a local copy shared with other open tabs, unless that would overwrite data that could not be read
+  useCrossTabSync({
+    records: breakRecords,
+    setRecords: setBreakRecords,
+    initialRecords: storedRecords.records,
+    enabled: !storageError,
+  });
+
+  const {
+    record: recordHistory,
+    undo,
+    redo,
+    undoEntry,
+    canUndoEntry,
+    undoLabel,
+    redoLabel,
+    canUndo,
+    canRedo,
+  } = useUndoHistory({
+    records: breakRecords,
+    setRecords: setBreakRecords,
+    enqueueSync,
+    canCorrect: canEditBreaks,
+  });
+  // No action for a step this user is not allowed to undo
+  const undoAction = useCallback((entryId: string) => canUndoEntry(entryId) ? {
+    label: 'Undo',
+    onClick: () => undoEntry(entryId),
+  } : undefined, [canUndoEntry, undoEntry]);
+
+  // Only a shift closed by hand can be undone; the automatic close would just run again
+  const archiveBoard = useCallback((records: BreakRecord[], archivedAt: Date, undoable = false) => {
+    const archivedIds = new Set(records.map(record => record.id));
+    setBreakRecords(prev => prev.map(record =>
+      archivedIds.has(record.id) ? archiveRecord(record, archivedAt) : record
+    ));
+    const archivedRecords = records.map(record => archiveRecord(record, archivedAt));
+    const entryId = undoable ? recordHistory('Close shift', records, archivedRecords) : null;
+    enqueueSync({
+      type: 'archive',
+      associateName: '',
+      recordIds: [...archivedIds],
+      archivedAt: archivedAt.toISOString(),
+      automatic: !undoable,
+    });
+
+    const unclosedCount = records.filter(record => record.status === 'active').length;
+    toast.success('Shift closed', {
+      description: `${records.length} record${records.length === 1 ? '' : 's'} moved to history`
+        + (unclosedCount > 0 ? `, ${unclosedCount} still running and flagged as unclosed` : ''),
+      action: entryId ? undoAction(entryId) : undefined,
+    });
+  }, [enqueueSync, recordHistory, undoAction]);
 
-  // Load data from localStorage on mount
+  // Fall back to the default type when the selected one is retired or removed from the policy
   useEffect(() => {
-    const savedData = localStorage.getItem('breakTimeTrackerData');
-    if (savedData) {
-      try {
-        const parsed = JSON.parse(savedData);
-        const reconstructedData = parsed.map((record: any) => ({
-          ...record,
-          startTime: new Date(record.startTime),
-          endTime: record.endTime ? new Date(record.endTime) : undefined,
-        }));
-        setBreakRecords(reconstructedData);
-      } catch (error) {
-        console.error('Error loading saved data:', error);
-        toast.error('Failed to load saved data');
-      }
+    if (!isActiveBreakType(policy, selectedBreakType)) {
+      setSelectedBreakType(policy.defaultBreakTypeId);
     }
-  }, []);
+  }, [policy, selectedBreakType]);
 
-  // Save to localStorage whenever records change
+  // Close the shift automatically once the configured close time passes
   useEffect(() => {
-    localStorage.setItem('breakTimeTrackerData', JSON.stringify(breakRecords));
-  }, [breakRecords]);
+    const { lastClose } = getShiftCloseTimes(policy.shiftCloseTime, currentTime);
+    const due = findRecordsToArchive(breakRecords, lastClose);
+    if (due.length > 0) {
+      archiveBoard(due, lastClose);
+    }
+  }, [breakRecords, policy.shiftCloseTime, currentTime, archiveBoard]);
 
-  // Helper functions
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString('en-US', { 
-      hour: '2-digit', 
-      minute: '2-digit', 
-      second: '2-digit' 
-    });
-  };
+  const visibleRecords = dateRange
+    ? breakRecords.filter(record => isRecordInRange(record, dateRange, currentTime))
+    : breakRecords.filter(isOnBoard);
+  const rangeLabel = dateRange ? formatRangeLabel(dateRange, currentTime) : 'Current shift';
+  const nextClose = getShiftCloseTimes(policy.shiftCloseTime, currentTime).nextClose;
 
-  const formatDuration = (ms: number) => {
-    const hours = Math.floor(ms / 3600000);
-    const minutes = Math.floor((ms % 3600000) / 60000);
-    const seconds = Math.floor((ms % 60000) / 1000);
-    
-    if (hours > 0) {
-      return `${hours}h ${minutes}m ${seconds}s`;
-    }
-    return `${minutes}m ${seconds}s`;
-  };
+  // Helper functions
 
   const calculateCurrentDuration = (startTime: Date) => {
     return currentTime.getTime() - startTime.getTime();
   };
 
-  const getDurationColor = (durationMs: number, status: string) => {
-    const minutes = Math.floor(durationMs / 60000);
+  const getBreakTypeName = (breakType: string) => {
+    return getBreakTypePolicy(policy, breakType).name;
+  };
+
+  const getDurationColor = (durationMs: number, status: string, breakType: string) => {
+    const level = getDurationLevel(durationMs, getBreakTypePolicy(policy, breakType));
     
     if (status === 'active') {
-      if (minutes > 32) return 'bg-red-100 text-red-800 border-red-200';
-      if (minutes > 30) return 'bg-orange-100 text-orange-800 border-orange-200';
+      if (level === 'overtime') return 'bg-red-100 text-red-800 border-red-200';
+      if (level === 'warning') return 'bg-orange-100 text-orange-800 border-orange-200';
       return 'bg-blue-100 text-blue-800 border-blue-200';
     }
     
-    if (minutes > 32) return 'bg-red-500 text-white';
-    if (minutes > 30) return 'bg-orange-500 text-white';
+    if (level === 'overtime') return 'bg-red-500 text-white';
+    if (level === 'warning') return 'bg-orange-500 text-white';
     return 'bg-green-100 text-green-800';
   };
 
@@ -101,107 +236,123 @@ const Index = () => {
         return <Clock className="h-4 w-4 text-blue-600" />;
       case 'overtime':
         return <AlertCircle className="h-4 w-4 text-red-600" />;
+      case 'unclosed':
+        return <HelpCircle className="h-4 w-4 text-orange-600" />;
       default:
         return <CheckCircle className="h-4 w-4 text-green-600" />;
     }
   };
 
-  const validateAssociateName = (name: string) => {
-    if (!name.trim()) {
-      toast.error('Please enter an associate name');
-      return false;
-    }
-
-    const nameCount = breakRecords.filter(record => 
-      record.name.toLowerCase() === name.toLowerCase()
-    ).length;
-    
-    if (nameCount >= 2) {
-      toast.error(`${name} has already been used twice. Cannot add more entries.`);
-      return false;
-    }
-
-    return true;
-  };
-
-  const startBreak = (name: string) => {
+  const startBreak = (associate: Associate, breakType: string) => {
     const now = new Date();
+    const name = associate.displayName;
     const newRecord: BreakRecord = {
-      id: `${name}-${now.getTime()}`,
+      id: `${associate.id}-${now.getTime()}`,
+      associateId: associate.id,
       name: name,
-      start: formatTime(now),
-      end: '',
-      duration: '',
       reason: '',
+      breakType,
       startTime: now,
       status: 'active'
     };
 
     setBreakRecords(prev => [...prev, newRecord]);
-    toast.success(`Break started for ${name}`, {
+    sync.enqueue({ type: 'start', associateName: name, row: toBreakRecordRow(newRecord) });
+    const entryId = recordHistory(`Start ${getBreakTypeName(breakType).toLowerCase()} for ${name}`, [], [newRecord]);
+    toast.success(`${getBreakTypeName(breakType)} started for ${name}`, {
       description: `Started at ${formatTime(now)}`,
+      action: undoAction(entryId),
     });
+    return newRecord;
   };
 
-  const endBreak = (name: string) => {
+  const endBreak = (record: BreakRecord) => {
     const now = new Date();
-    
+    const name = record.name;
+    const duration = now.getTime() - record.startTime.getTime();
+    const breakTypePolicy = getBreakTypePolicy(policy, record.breakType);
+    const level = getDurationLevel(duration, breakTypePolicy);
+    const status: 'completed' | 'overtime' = level === 'overtime' ? 'overtime' : 'completed';
+
+    const endedRecord: BreakRecord = {
+      ...record,
+      endTime: now,
+      status
+    };
+
     setBreakRecords(prev => 
-      prev.map(record => {
-        if (record.name === name && record.status === 'active') {
-          const duration = now.getTime() - record.startTime.getTime();
-          const minutes = Math.floor(duration / 60000);
-          
-          let status: 'completed' | 'overtime' = 'completed';
-          if (minutes > 32) {
-            status = 'overtime';
-            toast.error(`${name}'s break exceeded 32 minutes!`, {
-              description: `Duration: ${formatDuration(duration)}`,
-              duration: 5000,
-            });
-          } else if (minutes > 30) {
-            toast.warning(`${name}'s break exceeded 30 minutes`, {
-              description: `Duration: ${formatDuration(duration)}`,
-              duration: 3000,
-            });
-          } else {
-            toast.success(`Break ended for ${name}`, {
-              description: `Duration: ${formatDuration(duration)}`,
-            });
-          }
-
-          return {
-            ...record,
-            end: formatTime(now),
-            duration: formatDuration(duration),
-            endTime: now,
-            status
-          };
-        }
-        return record;
-      })
+      prev.map(existing => existing.id === record.id ? endedRecord : existing)
     );
+    sync.enqueue({
+      type: 'end',
+      associateName: name,
+      recordId: record.id,
+      endTime: now.toISOString(),
+      status,
+    });
+    const action = undoAction(recordHistory(`End ${breakTypePolicy.name.toLowerCase()} for ${name}`, [record], [endedRecord]));
+
+    if (level === 'overtime') {
+      toast.error(`${name}'s ${breakTypePolicy.name.toLowerCase()} exceeded ${breakTypePolicy.overtimeMinutes} minutes!`, {
+        description: `Duration: ${formatDuration(duration)}`,
+        duration: 5000,
+        action,
+      });
+    } else if (level === 'warning') {
+      toast.warning(`${name}'s ${breakTypePolicy.name.toLowerCase()} exceeded ${getWarningMinutes(breakTypePolicy)} minutes`, {
+        description: `Duration: ${formatDuration(duration)}`,
+        duration: 3000,
+        action,
+      });
+    } else {
+      toast.success(`Break ended for ${name}`, {
+        description: `Duration: ${formatDuration(duration)}`,
+        action,
+      });
+    }
+    return endedRecord;
+  };
+
+  // Starts a break for the associate, or ends the one they are already on
+  const toggleBreak = (associate: Associate, breakType: string): KioskScanResult => {
+    const activeRecord = findActiveBreak(breakRecords, associate);
+    if (activeRecord) {
+      return { kind: 'ended', record: endBreak(activeRecord) };
+    }
+
+    // Retired or unknown types would otherwise be recorded under the default type's name and limits
+    if (!isActiveBreakType(policy, breakType)) {
+      return { kind: 'error', message: 'That break type is no longer offered. Choose another one.' };
+    }
+
+    const allowanceError = checkBreakAllowance(breakRecords, associate, breakType, policy, new Date());
+    if (allowanceError) {
+      return { kind: 'error', message: allowanceError };
+    }
+    return { kind: 'started', record: startBreak(associate, breakType) };
   };
 
   const recordTime = () => {
-    const trimmedName = associateName.trim();
-    
-    if (!validateAssociateName(trimmedName)) {
-      setAssociateName('');
+    if (!selectedAssociate) {
+      toast.error('Please select an associate');
       return;
     }
 
-    const activeRecord = breakRecords.find(record => 
-      record.name === trimmedName && record.status === 'active'
-    );
-
-    if (activeRecord) {
-      endBreak(trimmedName);
-    } else {
-      startBreak(trimmedName);
+    const result = toggleBreak(selectedAssociate, selectedBreakType);
+    if (result.kind === 'error') {
+      toast.error('Break not started', { description: result.message });
     }
 
-    setAssociateName('');
+    setSelectedAssociate(undefined);
+    setSelectedBreakType(policy.defaultBreakTypeId);
+  };
+
+  const handleBadgeScan = (code: string): KioskScanResult => {
+    const associate = findAssociateByBadge(associates.filter(candidate => candidate.active), code);
+    if (!associate) {
+      return { kind: 'error', message: `Badge ${code} is not on the roster. Please see your lead.` };
+    }
+    return toggleBreak(associate, selectedBreakType);
   };
 
   const updateReason = (id: string, reason: string) => {
@@ -212,20 +363,90 @@ const Index = () => {
     );
   };
 
-  const deleteRecord = (id: string) => {
+  const beginReasonEdit = (record: BreakRecord) => {
+    reasonsBeforeEdit.current[record.id] = record.reason;
+  };
+
+  const saveReason = (record: BreakRecord) => {
+    const previousReason = reasonsBeforeEdit.current[record.id] ?? '';
+    delete reasonsBeforeEdit.current[record.id];
+    if (record.reason === previousReason) return;
+
+    sync.enqueue({
+      type: 'reason',
+      associateName: record.name,
+      recordId: record.id,
+      reason: record.reason,
+      previousReason,
+    });
+    const entryId = recordHistory(`Edit reason for ${record.name}`, [{ ...record, reason: previousReason }], [record]);
+    toast.success('Reason saved', { description: record.name, action: undoAction(entryId) });
+  };
+
+  const saveAdjustment = (original: BreakRecord, adjusted: BreakRecord) => {
+    setBreakRecords(prev => prev.map(record => record.id === adjusted.id ? adjusted : record));
+    sync.enqueue({
+      type: 'adjust',
+      associateName: adjusted.name,
+      recordId: adjusted.id,
+      changes: toBreakAdjustmentRow(adjusted),
+    });
+    const entryId = recordHistory(`Correct times for ${adjusted.name}`, [original], [adjusted]);
+    setAdjustingRecord(null);
+    toast.success('Break times corrected', { description: adjusted.name, action: undoAction(entryId) });
+  };
+
+  const deleteRecord = (record: BreakRecord) => {
     if (window.confirm('Are you sure you want to delete this record?')) {
-      setBreakRecords(prev => prev.filter(record => record.id !== id));
-      toast.success('Record deleted successfully');
+      setBreakRecords(prev => prev.filter(existing => existing.id !== record.id));
+      sync.enqueue({ type: 'delete', associateName: record.name, recordId: record.id });
+      const entryId = recordHistory(`Delete break for ${record.name}`, [record], []);
+      toast.success('Record deleted successfully', { action: undoAction(entryId) });
     }
   };
 
+  const importRecords = (rows: BreakImportRow[]) => {
+    const imported = new Map(rows.map(row => [row.record.id, row.record]));
+    setBreakRecords(prev => [
+      ...prev.map(record => imported.get(record.id) ?? record),
+      ...rows.filter(row => row.action === 'add').map(row => row.record),
+    ].sort((a, b) => a.startTime.getTime() - b.startTime.getTime()));
+
+    rows.forEach(({ action, record, existing }) => {
+      if (action === 'add') {
+        sync.enqueue({ type: 'start', associateName: record.name, action: 'import', row: toBreakRecordRow(record) });
+        return;
+      }
+      if (record.endTime && !existing.endTime) {
+        sync.enqueue({
+          type: 'end',
+          associateName: record.name,
+          action: 'import',
+          recordId: record.id,
+          endTime: record.endTime.toISOString(),
+          status: record.status,
+        });
+      }
+      if (record.reason !== existing.reason) {
+        sync.enqueue({
+          type: 'reason',
+          associateName: record.name,
+          action: 'import',
+          recordId: record.id,
+          reason: record.reason,
+          previousReason: existing.reason,
+        });
+      }
+    });
+  };
+
   const copyTable = async () => {
     try {
-      const tableText = breakRecords.map(record => 
-        `${record.name}\t${record.start}\t${record.end}\t${record.duration}\t${record.reason}\t${record.status}`
+      const tableText = visibleRecords.map(record => 
+        `${formatDate(record.startTime)}\t${record.name}\t${getBreakTypeName(record.breakType)}\t${formatTime(record.startTime)}\t${record.endTime ? formatTime(record.endTime) : ''}\t${record.endTime ? formatDuration(getRecordDuration(record)) : ''}\t${record.reason}\t${record.status}\t${record.adjustment ? 'Yes' : 'No'}\t${record.adjustment?.reason ?? ''}`
       ).join('\n');
       
-      const header = 'Associate Name\tBreak Start\tBreak End\tBreak Duration\tReason\tStatus\n';
+      const header = 'Date\tAssociate Name\tBreak Type\tBreak Start\tBreak End\tBreak Duration\tReason\tStatus\tAdjusted\tCorrection Reason\n';
       await navigator.clipboard.writeText(header + tableText);
       toast.success('Table copied to clipboard!');
     } catch (error) {
@@ -234,60 +455,45 @@ const Index = () => {
   };
 
   const downloadExcel = () => {
-    const data = [
-      ['Associate Name', 'Break Start', 'Break End', 'Break Duration', 'Reason', 'Status'],
-      ...breakRecords.map(record => [
-        record.name, 
-        record.start, 
-        record.end || 'Active', 
-        record.duration || formatDuration(calculateCurrentDuration(record.startTime)), 
-        record.reason,
-        record.status
-      ])
-    ];
-
-    const worksheet = XLSX.utils.aoa_to_sheet(data);
-    const workbook = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'Break Times');
-    
-    const fileName = `break_times_${new Date().toISOString().split('T')[0]}.xlsx`;
-    XLSX.writeFile(workbook, fileName);
+    const fileName = `break_times_${formatRangeForFileName(dateRange ?? { from: currentTime, to: currentTime })}.xlsx`;
+    downloadBreakReport(visibleRecords, policy, associates, fileName);
     toast.success('Excel file downloaded!', {
       description: fileName
     });
   };
 
-  const clearTable = () => {
-    if (window.confirm('Are you sure you want to clear all break records? This action cannot be undone.')) {
-      setBreakRecords([]);
-      localStorage.removeItem('breakTimeTrackerData');
-      toast.success('All records cleared successfully');
+  const closeShiftNow = () => {
+    const boardRecords = breakRecords.filter(isOnBoard);
+    if (boardRecords.length === 0) {
+      toast.error('The board is already empty');
+      return;
     }
-  };
-
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
-      recordTime();
+    const message = 'Close the shift now? Every record on the board moves to history, and breaks still running are flagged as unclosed.';
+    if (window.confirm(message)) {
+      archiveBoard(boardRecords, new Date(), true);
     }
   };
 
+  const activeAssociateIds = new Set(
+    breakRecords
+      .filter(record => record.status === 'active' && record.associateId)
+      .map(record => record.associateId)
+  );
+
   const getActiveBreaksCount = () => {
-    return breakRecords.filter(record => record.status === 'active').length;
+    return visibleRecords.filter(record => record.status === 'active').length;
   };
 
   const getOvertimeBreaksCount = () => {
-    return breakRecords.filter(record => record.status === 'overtime').length;
+    return visibleRecords.filter(record => record.status === 'overtime').length;
   };
 
-  const getTotalBreaksToday = () => {
-    const today = new Date().toDateString();
-    return breakRecords.filter(record => 
-      record.startTime.toDateString() === today
-    ).length;
-  };
+  if (storageError) {
+    return <StorageRecovery error={storageError} onRecovered={() => setStorageError(null)} />;
+  }
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-slate-50 p-4">
+    <div className={`min-h-screen bg-gradient-to-br from-blue-50 via-white to-slate-50 p-4 ${printJob ? 'print:hidden' : ''}`}>
       <div className="max-w-7xl mx-auto pt-8">
         {/* Header */}
         <div className="text-center mb-8">
@@ -298,6 +504,27 @@ const Index = () => {
           <p className="text-slate-600 text-lg">Professional break time tracking and management system</p>
           <div className="mt-4 text-sm text-slate-500">
             Current Time: {formatTime(currentTime)}
+            <span className="ml-2">· Shift closes at {formatTime(nextClose)}</span>
+            {policy.siteName && <span className="ml-2">· Site: {policy.siteName}</span>}
+          </div>
+          <div className="mt-2 flex items-center justify-center gap-2 flex-wrap">
+            <StationPresence
+              stations={realtime.stations}
+              currentStationId={realtime.stationId}
+              isSubscribed={realtime.isSubscribed}
+            />
+            <SyncStatus
+              isOnline={sync.isOnline}
+              isSyncing={sync.isSyncing}
+              pendingCount={sync.pendingCount}
+              conflicts={sync.conflicts}
+              onSyncNow={sync.flush}
+              onDismissConflict={sync.dismissConflict}
+              onClearConflicts={sync.clearConflicts}
+            />
+          </div>
+          <div className="mt-2">
+            <AppNav />
           </div>
         </div>
 
@@ -331,8 +558,8 @@ const Index = () => {
             <CardContent className="p-4">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-green-600">Total Today</p>
-                  <p className="text-2xl font-bold text-green-800">{getTotalBreaksToday()}</p>
+                  <p className="text-sm text-green-600">Total {dateRange ? 'in Range' : 'This Shift'}</p>
+                  <p className="text-2xl font-bold text-green-800">{visibleRecords.length}</p>
                 </div>
                 <CheckCircle className="h-8 w-8 text-green-600" />
               </div>
@@ -343,7 +570,7 @@ const Index = () => {
             <CardContent className="p-4">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-slate-600">Total Records</p>
+                  <p className="text-sm text-slate-600">All Records</p>
                   <p className="text-2xl font-bold text-slate-800">{breakRecords.length}</p>
                 </div>
                 <Users className="h-8 w-8 text-slate-600" />
@@ -352,6 +579,12 @@ const Index = () => {
           </Card>
         </div>
 
+        <AlertsPanel
+          alerts={breakAlerts.unacknowledged}
+          onAcknowledge={breakAlerts.acknowledge}
+          onAcknowledgeAll={breakAlerts.acknowledgeAll}
+        />
+
         {/* Control Section */}
         <Card className="mb-8 shadow-lg border-slate-200">
           <CardHeader>
@@ -362,27 +595,45 @@ const Index = () => {
           </CardHeader>
           <CardContent>
             <div className="flex flex-col sm:flex-row gap-4 items-center justify-center">
-              <div className="flex-1 max-w-xs">
-                <Input
-                  type="text"
-                  placeholder="Enter associate name"
-                  value={associateName}
-                  onChange={(e) => setAssociateName(e.target.value)}
-                  onKeyDown={handleKeyPress}
-                  className="w-full"
+              <div className="flex-1 max-w-xs w-full">
+                <AssociatePicker
+                  associates={associates}
+                  value={selectedAssociate}
+                  onSelect={setSelectedAssociate}
+                  activeAssociateIds={activeAssociateIds}
+                  focusAfterSelectRef={recordButtonRef}
                 />
               </div>
+              <div className="w-full sm:w-44">
+                <Select value={selectedBreakType} onValueChange={setSelectedBreakType}>
+                  <SelectTrigger aria-label="Break type">
+                    <SelectValue placeholder="Break type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getActiveBreakTypes(policy).map(type => (
+                      <SelectItem key={type.id} value={type.id}>
+                        {type.name} ({type.allowedMinutes} min)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="flex gap-2 flex-wrap justify-center">
                 <Button 
+                  ref={recordButtonRef}
                   onClick={recordTime} 
                   className="bg-blue-600 hover:bg-blue-700"
-                  disabled={!associateName.trim()}
+                  disabled={!selectedAssociate}
                 >
-                  {associateName && breakRecords.find(r => r.name === associateName && r.status === 'active') 
+                  {selectedAssociate && findActiveBreak(breakRecords, selectedAssociate) 
                     ? 'End Break' 
                     : 'Start Break'
                   }
                 </Button>
+                <Button onClick={() => setIsKioskMode(true)} variant="outline" className="flex items-center gap-2">
+                  <ScanLine className="h-4 w-4" />
+                  Kiosk Mode
+                </Button>
                 <Button onClick={copyTable} variant="outline" className="flex items-center gap-2">
                   <Copy className="h-4 w-4" />
                   Copy Table
@@ -391,23 +642,57 @@ const Index = () => {
                   <Download className="h-4 w-4" />
                   Download Excel
                 </Button>
-                <Button onClick={clearTable} variant="destructive" className="flex items-center gap-2">
-                  <Trash2 className="h-4 w-4" />
-                  Clear All
+                <Button onClick={() => setIsExportOpen(true)} variant="outline" className="flex items-center gap-2">
+                  <FileOutput className="h-4 w-4" />
+                  Export...
+                </Button>
+                <Button onClick={() => setIsImportOpen(true)} variant="outline" className="flex items-center gap-2">
+                  <FileUp className="h-4 w-4" />
+                  Import...
+                </Button>
+                <Button
+                  onClick={undo}
+                  disabled={!canUndo}
+                  variant="outline"
+                  title={!undoLabel ? 'Nothing to undo' : canUndo ? `Undo: ${undoLabel} (Ctrl+Z)` : `Only supervisors can undo: ${undoLabel}`}
+                  className="flex items-center gap-2"
+                >
+                  <Undo2 className="h-4 w-4" />
+                  Undo
+                </Button>
+                <Button
+                  onClick={redo}
+                  disabled={!canRedo}
+                  variant="outline"
+                  title={!redoLabel ? 'Nothing to redo' : canRedo ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : `Only supervisors can redo: ${redoLabel}`}
+                  className="flex items-center gap-2"
+                >
+                  <Redo2 className="h-4 w-4" />
+                  Redo
+                </Button>
+                <Button onClick={closeShiftNow} variant="outline" className="flex items-center gap-2">
+                  <Archive className="h-4 w-4" />
+                  Close Shift Now
                 </Button>
               </div>
             </div>
+            {associates.length === 0 && (
+              <p className="mt-4 text-center text-sm text-slate-500">
+                The roster is empty. <Link to="/associates" className="text-blue-600 underline">Add associates</Link> to start tracking breaks.
+              </p>
+            )}
           </CardContent>
         </Card>
 
         {/* Break Records Table */}
         <Card className="shadow-lg border-slate-200">
           <CardHeader>
-            <CardTitle className="text-slate-700 flex items-center justify-between">
+            <CardTitle className="text-slate-700 flex items-center justify-between gap-4 flex-wrap">
               <span>Break Records</span>
-              <span className="text-sm font-normal text-slate-500">
-                {breakRecords.length} total records
-              </span>
+              <div className="flex items-center gap-3 text-sm font-normal text-slate-500">
+                <span>{visibleRecords.length} of {breakRecords.length} records</span>
+                <DateRangePicker value={dateRange} onChange={setDateRange} />
+              </div>
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -417,6 +702,7 @@ const Index = () => {
                   <TableRow className="bg-blue-50">
                     <TableHead className="font-semibold text-slate-700">Status</TableHead>
                     <TableHead className="font-semibold text-slate-700">Associate Name</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Break Type</TableHead>
                     <TableHead className="font-semibold text-slate-700">Break Start</TableHead>
                     <TableHead className="font-semibold text-slate-700">Break End</TableHead>
                     <TableHead className="font-semibold text-slate-700">Duration</TableHead>
@@ -425,14 +711,16 @@ const Index = () => {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {breakRecords.length === 0 ? (
+                  {visibleRecords.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={7} className="text-center text-slate-500 py-8">
-                        No break records yet. Start tracking breaks by entering an associate name above.
+                      <TableCell colSpan={8} className="text-center text-slate-500 py-8">
+                        {!dateRange
+                          ? 'No break records yet this shift. Start tracking breaks by selecting an associate above.'
+                          : `No break records for ${rangeLabel}.`}
                       </TableCell>
                     </TableRow>
                   ) : (
-                    breakRecords.map((record) => {
+                    visibleRecords.map((record) => {
                       const currentDuration = record.status === 'active' 
                         ? calculateCurrentDuration(record.startTime)
                         : record.endTime 
@@ -445,22 +733,37 @@ const Index = () => {
                             <div className="flex items-center gap-2">
                               {getStatusIcon(record.status)}
                               <span className="capitalize text-sm">{record.status}</span>
+                              <AdjustedBadge adjustment={record.adjustment} />
                             </div>
                           </TableCell>
                           <TableCell className="font-medium">{record.name}</TableCell>
-                          <TableCell>{record.start}</TableCell>
+                          <TableCell>{getBreakTypeName(record.breakType)}</TableCell>
+                          <TableCell>
+                            {formatTime(record.startTime)}
+                            {!isSameDay(record.startTime, currentTime) && (
+                              <span className="block text-xs text-slate-500">{formatDate(record.startTime)}</span>
+                            )}
+                          </TableCell>
                           <TableCell>
-                            {record.end || (
+                            {record.endTime ? formatTime(record.endTime) : (record.status === 'unclosed' ? (
+                              <span className="text-orange-600 font-semibold">Not ended</span>
+                            ) : (
                               <span className="text-green-600 font-semibold flex items-center gap-1">
                                 <Clock className="h-3 w-3" />
                                 Active
                               </span>
-                            )}
+                            ))}
                           </TableCell>
                           <TableCell>
-                            <div className={`inline-flex items-center px-2 py-1 rounded-md text-sm font-medium border ${getDurationColor(currentDuration, record.status)}`}>
-                              {record.duration || formatDuration(currentDuration)}
-                            </div>
+                            {record.status === 'unclosed' ? (
+                              <div className="inline-flex items-center px-2 py-1 rounded-md text-sm font-medium border bg-orange-100 text-orange-800 border-orange-200">
+                                Unknown
+                              </div>
+                            ) : (
+                              <div className={`inline-flex items-center px-2 py-1 rounded-md text-sm font-medium border ${getDurationColor(currentDuration, record.status, record.breakType)}`}>
+                                {formatDuration(currentDuration)}
+                              </div>
+                            )}
                           </TableCell>
                           <TableCell>
                             <Input
@@ -468,18 +771,33 @@ const Index = () => {
                               placeholder="Enter reason"
                               value={record.reason}
                               onChange={(e) => updateReason(record.id, e.target.value)}
+                              onFocus={() => beginReasonEdit(record)}
+                              onBlur={() => saveReason(record)}
                               className="max-w-xs"
                             />
                           </TableCell>
-                          <TableCell>
-                            <Button
-                              onClick={() => deleteRecord(record.id)}
-                              variant="ghost"
-                              size="sm"
-                              className="text-red-600 hover:text-red-800 hover:bg-red-50"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
+                          <TableCell className="whitespace-nowrap">
+                            {canEditBreaks && (
+                              <>
+                                <Button
+                                  onClick={() => setAdjustingRecord(record)}
+                                  variant="ghost"
+                                  size="sm"
+                                  className="text-slate-600 hover:text-slate-800"
+                                  aria-label="Correct break times"
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  onClick={() => deleteRecord(record)}
+                                  variant="ghost"
+                                  size="sm"
+                                  className="text-red-600 hover:text-red-800 hover:bg-red-50"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </>
+                            )}
                           </TableCell>
                         </TableRow>
                       );
@@ -494,9 +812,50 @@ const Index = () => {
         {/* Footer */}
         <div className="mt-8 text-center text-sm text-slate-500">
           <p>Break Time Keeper Pro - Built for professional workplace management</p>
-          <p className="mt-1">Data is automatically saved to local storage</p>
+          <p className="mt-1">Records are shared across stations and kept in local storage while offline</p>
         </div>
       </div>
+
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        records={breakRecords}
+        policy={policy}
+        associates={associates}
+        initialRange={dateRange}
+        onPrint={setPrintJob}
+      />
+
+      <BreakImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        records={breakRecords}
+        policy={policy}
+        associates={associates}
+        onImport={importRecords}
+      />
+
+      <BreakAdjustDialog
+        key={adjustingRecord?.id}
+        record={adjustingRecord}
+        records={breakRecords}
+        policy={policy}
+        actor={actorName}
+        onOpenChange={(open) => !open && setAdjustingRecord(null)}
+        onSave={saveAdjustment}
+      />
+
+      {printJob && <BreakPrintSheet job={printJob} onDone={finishPrint} />}
+
+      {isKioskMode && (
+        <KioskMode
+          policy={policy}
+          breakTypeId={selectedBreakType}
+          currentTime={currentTime}
+          onScan={handleBadgeScan}
+          onExit={() => setIsKioskMode(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,341 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArchiveRestore, Plus, RotateCcw, Save, Settings as SettingsIcon, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import AppNav from '@/components/AppNav';
+import NotificationSettingsCard from '@/components/NotificationSettingsCard';
+import { useAuth } from '@/hooks/use-auth';
+import { useBreakPolicy } from '@/hooks/use-break-policy';
+import {
+  BreakPolicy,
+  BreakTypePolicy,
+  getActiveBreakTypes,
+  removeBreakType,
+  resetBreakPolicy,
+  validateBreakPolicy,
+} from '@/lib/break-policy';
+import { getStationName, saveStationName } from '@/lib/station';
+import { hasRole } from '@/lib/user-roles';
+
+const Settings = () => {
+  const { policy, isLoading, savePolicy } = useBreakPolicy();
+  const [draft, setDraft] = useState<BreakPolicy>(policy);
+  const [stationName, setStationName] = useState(getStationName);
+  const { profile } = useAuth();
+  // The station name belongs to this device; the policy is the site's, editable once the shared copy is in
+  const canEditPolicy = hasRole(profile, 'admin') && !isLoading;
+
+  useEffect(() => {
+    setDraft(policy);
+  }, [policy]);
+
+  const updateBreakType = (id: string, changes: Partial<BreakTypePolicy>) => {
+    setDraft(prev => ({
+      ...prev,
+      breakTypes: prev.breakTypes.map(type =>
+        type.id === id ? { ...type, ...changes } : type
+      ),
+    }));
+  };
+
+  const addBreakType = () => {
+    const newType: BreakTypePolicy = {
+      id: `break-${Date.now()}`,
+      name: 'New Break',
+      allowedMinutes: 15,
+      graceMinutes: 0,
+      overtimeMinutes: 17,
+      allowancePerShift: null,
+    };
+    setDraft(prev => ({ ...prev, breakTypes: [...prev.breakTypes, newType] }));
+  };
+
+  const handleSave = async () => {
+    if (canEditPolicy) {
+      const error = validateBreakPolicy(draft);
+      if (error) {
+        toast.error('Settings not saved', { description: error });
+        return;
+      }
+    }
+    saveStationName(stationName);
+    if (canEditPolicy) {
+      try {
+        await savePolicy(draft);
+      } catch (error) {
+        console.error('Error saving break policy:', error);
+        toast.error('Break policy not saved', { description: 'Check the connection and try again.' });
+        return;
+      }
+    }
+    toast.success('Settings saved');
+  };
+
+  const handleReset = async () => {
+    if (window.confirm('Reset the break policy to the default settings?')) {
+      try {
+        await savePolicy(resetBreakPolicy(policy));
+        toast.success('Break policy reset to defaults');
+      } catch (error) {
+        console.error('Error resetting break policy:', error);
+        toast.error('Break policy not reset', { description: 'Check the connection and try again.' });
+      }
+    }
+  };
+
+  const parseMinutes = (value: string) => {
+    const minutes = Number(value);
+    return Number.isFinite(minutes) ? minutes : 0;
+  };
+
+  const parseAllowance = (value: string) => {
+    if (!value.trim()) return null;
+    const allowance = Number(value);
+    return Number.isFinite(allowance) ? allowance : null;
+  };
+
+  const updateShiftStartTime = (index: number, time: string) => {
+    setDraft(prev => ({
+      ...prev,
+      shiftStartTimes: prev.shiftStartTimes.map((existing, i) => i === index ? time : existing),
+    }));
+  };
+
+  const addShiftStartTime = () => {
+    setDraft(prev => ({ ...prev, shiftStartTimes: [...prev.shiftStartTimes, '18:00'] }));
+  };
+
+  const removeShiftStartTime = (index: number) => {
+    setDraft(prev => ({
+      ...prev,
+      shiftStartTimes: prev.shiftStartTimes.filter((_, i) => i !== index),
+    }));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-slate-50 p-4">
+      <div className="max-w-5xl mx-auto pt-8">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-slate-800 flex items-center gap-3">
+            <SettingsIcon className="h-8 w-8 text-blue-600" />
+            Settings
+          </h1>
+          <AppNav />
+        </div>
+
+        <Card className="mb-8 shadow-lg border-slate-200">
+          <CardHeader>
+            <CardTitle className="text-slate-700">Site, Station &amp; Shifts</CardTitle>
+            <CardDescription>
+              Break allowances are counted from the most recent shift start until the next one.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 max-w-2xl">
+              <div className="space-y-2">
+                <Label htmlFor="siteName">Site name</Label>
+                <Input
+                  id="siteName"
+                  disabled={!canEditPolicy}
+                  placeholder="e.g. Warehouse 3"
+                  value={draft.siteName}
+                  onChange={(e) => setDraft(prev => ({ ...prev, siteName: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="stationName">Station name (this device)</Label>
+                <Input
+                  id="stationName"
+                  placeholder="e.g. Dock Desk"
+                  value={stationName}
+                  onChange={(e) => setStationName(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="shiftCloseTime">Shift close time</Label>
+              <Input
+                id="shiftCloseTime"
+                disabled={!canEditPolicy}
+                type="time"
+                value={draft.shiftCloseTime}
+                onChange={(e) => setDraft(prev => ({ ...prev, shiftCloseTime: e.target.value }))}
+                className="w-32"
+              />
+              <p className="text-xs text-slate-500">
+                At this time every day the tracker board moves to history and starts clean.
+                Breaks still running are flagged as unclosed.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Shift start times</Label>
+              <div className="flex gap-2 flex-wrap items-center">
+                {draft.shiftStartTimes.map((time, index) => (
+                  <div key={index} className="flex items-center gap-1">
+                    <Input
+                      type="time"
+                      aria-label={`Shift ${index + 1} start time`}
+                      disabled={!canEditPolicy}
+                      value={time}
+                      onChange={(e) => updateShiftStartTime(index, e.target.value)}
+                      className="w-32"
+                    />
+                    <Button
+                      onClick={() => removeShiftStartTime(index)}
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-800 hover:bg-red-50"
+                      disabled={!canEditPolicy || draft.shiftStartTimes.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button onClick={addShiftStartTime} variant="outline" size="sm" className="flex items-center gap-2" disabled={!canEditPolicy}>
+                  <Plus className="h-4 w-4" />
+                  Add Shift
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="mb-8 shadow-lg border-slate-200">
+          <CardHeader>
+            <CardTitle className="text-slate-700">Break Policy</CardTitle>
+            <CardDescription>
+              A break shows a warning once it runs past its allowed duration plus grace period,
+              and is marked as overtime once it passes the overtime threshold. Leave the per-shift
+              allowance blank to allow unlimited breaks of that type. Removing a type retires it, so
+              breaks already recorded under it keep its limits.
+              {!canEditPolicy && ' Only admins can change the break policy and shift times.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <fieldset disabled={!canEditPolicy} className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-blue-50">
+                    <TableHead className="font-semibold text-slate-700">Default</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Break Type</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Allowed (min)</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Grace (min)</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Overtime After (min)</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Per Shift</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {draft.breakTypes.map(type => (
+                    <TableRow key={type.id} className={type.retired ? 'opacity-60' : undefined}>
+                      <TableCell>
+                        <input
+                          type="radio"
+                          name="defaultBreakType"
+                          aria-label={`Use ${type.name} as default`}
+                          disabled={type.retired}
+                          checked={draft.defaultBreakTypeId === type.id}
+                          onChange={() => setDraft(prev => ({ ...prev, defaultBreakTypeId: type.id }))}
+                          className="h-4 w-4 accent-blue-600"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={type.name}
+                          onChange={(e) => updateBreakType(type.id, { name: e.target.value })}
+                          className="max-w-xs"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={type.allowedMinutes}
+                          onChange={(e) => updateBreakType(type.id, { allowedMinutes: parseMinutes(e.target.value) })}
+                          className="w-24"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={type.graceMinutes}
+                          onChange={(e) => updateBreakType(type.id, { graceMinutes: parseMinutes(e.target.value) })}
+                          className="w-24"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={type.overtimeMinutes}
+                          onChange={(e) => updateBreakType(type.id, { overtimeMinutes: parseMinutes(e.target.value) })}
+                          className="w-24"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          placeholder="Unlimited"
+                          value={type.allowancePerShift ?? ''}
+                          onChange={(e) => updateBreakType(type.id, { allowancePerShift: parseAllowance(e.target.value) })}
+                          className="w-28"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {type.retired ? (
+                          <Button
+                            onClick={() => updateBreakType(type.id, { retired: false })}
+                            variant="ghost"
+                            size="sm"
+                            title="Retired: kept for earlier breaks. Restore to offer it again."
+                          >
+                            <ArchiveRestore className="h-4 w-4" />
+                          </Button>
+                        ) : (
+                          <Button
+                            onClick={() => setDraft(prev => removeBreakType(prev, policy, type.id))}
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600 hover:text-red-800 hover:bg-red-50"
+                            disabled={getActiveBreakTypes(draft).length === 1}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </fieldset>
+
+            <div className="flex gap-2 flex-wrap justify-end mt-6">
+              <Button onClick={addBreakType} variant="outline" className="flex items-center gap-2" disabled={!canEditPolicy}>
+                <Plus className="h-4 w-4" />
+                Add Break Type
+              </Button>
+              <Button onClick={handleReset} variant="outline" className="flex items-center gap-2" disabled={!canEditPolicy}>
+                <RotateCcw className="h-4 w-4" />
+                Reset to Defaults
+              </Button>
+              <Button onClick={handleSave} className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2">
+                <Save className="h-4 w-4" />
+                Save Settings
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <NotificationSettingsCard />
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
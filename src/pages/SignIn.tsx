@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertCircle, LogIn, Timer } from 'lucide-react';
+import { signInWithPassword } from '@/lib/auth-api';
+
+const SignIn = () => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSigningIn(true);
+    try {
+      await signInWithPassword(email, password);
+    } catch (signInError) {
+      console.error('Error signing in:', signInError);
+      setError((signInError as Error).message || 'Could not sign in');
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-slate-50 p-4 flex items-center justify-center">
+      <Card className="w-full max-w-sm shadow-lg border-slate-200">
+        <CardHeader>
+          <CardTitle className="text-slate-800 flex items-center gap-2">
+            <Timer className="h-6 w-6 text-blue-600" />
+            Break Time Keeper Pro
+          </CardTitle>
+          <CardDescription>Sign in with the account your administrator set up for you.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="username"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoFocus
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+            {error && (
+              <p className="flex items-center gap-2 text-sm text-red-600">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </p>
+            )}
+            <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700 flex items-center gap-2" disabled={isSigningIn}>
+              <LogIn className="h-4 w-4" />
+              {isSigningIn ? 'Signing in...' : 'Sign In'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SignIn;
@@ -0,0 +1,54 @@
+-- Break records shared by every supervisor workstation
+create table public.break_records (
+  id text primary key,
+  associate_name text not null,
+  break_type text not null,
+  reason text not null default '',
+  status text not null default 'active'
+    check (status in ('active', 'completed', 'overtime')),
+  start_time timestamptz not null,
+  end_time timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index break_records_start_time_idx on public.break_records (start_time);
+create index break_records_associate_name_idx on public.break_records (lower(associate_name));
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger break_records_set_updated_at
+  before update on public.break_records
+  for each row execute function public.set_updated_at();
+
+alter table public.break_records enable row level security;
+
+-- Every station uses the anon key until sign-in exists
+create policy "Stations can read break records"
+  on public.break_records for select
+  to anon, authenticated
+  using (true);
+
+create policy "Stations can insert break records"
+  on public.break_records for insert
+  to anon, authenticated
+  with check (true);
+
+create policy "Stations can update break records"
+  on public.break_records for update
+  to anon, authenticated
+  using (true)
+  with check (true);
+
+create policy "Stations can delete break records"
+  on public.break_records for delete
+  to anon, authenticated
+  using (true);
@@ -0,0 +1,2 @@
+-- Broadcast inserts, updates and deletes so every station sees changes immediately
+alter publication supabase_realtime add table public.break_records;
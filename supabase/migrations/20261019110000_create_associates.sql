@@ -0,0 +1,42 @@
+-- Associate roster; break records point at it instead of relying on typed names
+create table public.associates (
+  id uuid primary key default gen_random_uuid(),
+  display_name text not null,
+  badge_number text not null default '',
+  team text not null default '',
+  shift text not null default '',
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index associates_badge_number_key
+  on public.associates (lower(badge_number))
+  where badge_number <> '';
+
+create trigger associates_set_updated_at
+  before update on public.associates
+  for each row execute function public.set_updated_at();
+
+alter table public.break_records
+  add column associate_id uuid references public.associates (id) on delete set null;
+
+create index break_records_associate_id_idx on public.break_records (associate_id);
+
+alter table public.associates enable row level security;
+
+create policy "Stations can read associates"
+  on public.associates for select
+  to anon, authenticated
+  using (true);
+
+create policy "Stations can insert associates"
+  on public.associates for insert
+  to anon, authenticated
+  with check (true);
+
+create policy "Stations can update associates"
+  on public.associates for update
+  to anon, authenticated
+  using (true)
+  with check (true);
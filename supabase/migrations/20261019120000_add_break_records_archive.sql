@@ -0,0 +1,13 @@
+-- Shift close moves the board's records into history instead of deleting them
+alter table public.break_records
+  add column archived_at timestamptz;
+
+-- Breaks still running when the shift closes are kept but flagged as unclosed
+alter table public.break_records
+  drop constraint break_records_status_check;
+
+alter table public.break_records
+  add constraint break_records_status_check
+    check (status in ('active', 'completed', 'overtime', 'unclosed'));
+
+create index break_records_archived_at_idx on public.break_records (archived_at);
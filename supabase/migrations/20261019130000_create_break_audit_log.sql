@@ -0,0 +1,46 @@
+-- Append-only trail of every change made to break records, kept for labor disputes
+create table public.break_audit_log (
+  -- Generated by the station so a replayed upload never adds the same entry twice
+  id text primary key,
+  occurred_at timestamptz not null,
+  actor text not null,
+  station_id text not null,
+  station_name text not null,
+  action text not null
+    check (action in ('start', 'end', 'reason', 'delete', 'close_shift', 'import', 'undo', 'redo')),
+  record_id text not null,
+  associate_name text not null default '',
+  -- The break record row before and after the change; null when it did not exist
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index break_audit_log_occurred_at_idx on public.break_audit_log (occurred_at desc);
+create index break_audit_log_record_id_idx on public.break_audit_log (record_id);
+
+create or replace function public.prevent_audit_log_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'The break audit log is append-only';
+end;
+$$;
+
+create trigger break_audit_log_append_only
+  before update or delete on public.break_audit_log
+  for each row execute function public.prevent_audit_log_changes();
+
+alter table public.break_audit_log enable row level security;
+
+-- No update or delete policies: entries can be added and read, never changed
+create policy "Stations can read the audit log"
+  on public.break_audit_log for select
+  to anon, authenticated
+  using (true);
+
+create policy "Stations can add audit entries"
+  on public.break_audit_log for insert
+  to anon, authenticated
+  with check (true);
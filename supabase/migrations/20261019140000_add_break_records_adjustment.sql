@@ -0,0 +1,12 @@
+-- Supervisor corrections of start and end times, kept with who made them and why
+alter table public.break_records
+  add column adjusted_at timestamptz,
+  add column adjusted_by text,
+  add column adjustment_reason text;
+
+alter table public.break_audit_log
+  drop constraint break_audit_log_action_check;
+
+alter table public.break_audit_log
+  add constraint break_audit_log_action_check
+    check (action in ('start', 'end', 'reason', 'adjust', 'delete', 'close_shift', 'import', 'undo', 'redo'));
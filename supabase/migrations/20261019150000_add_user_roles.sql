@@ -0,0 +1,133 @@
+-- Signed-in users and what they may do. Roles are ranked: each can do everything the ones below it can.
+--   lead        start and end breaks, edit reasons, close the shift
+--   supervisor  also correct break times, delete breaks and read the audit log
+--   admin       also change the roster and assign roles
+create table public.user_roles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  role text not null
+    check (role in ('lead', 'supervisor', 'admin')),
+  display_name text not null default '',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create trigger user_roles_set_updated_at
+  before update on public.user_roles
+  for each row execute function public.set_updated_at();
+
+-- Security definer so policies on user_roles itself can call it without recursing
+create or replace function public.has_role(required text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select array_position(array['lead', 'supervisor', 'admin'], role)
+      >= array_position(array['lead', 'supervisor', 'admin'], required)
+    from public.user_roles
+    where user_id = auth.uid()
+  ), false);
+$$;
+
+alter table public.user_roles enable row level security;
+
+create policy "Users can read their own role"
+  on public.user_roles for select
+  to authenticated
+  using (user_id = auth.uid() or public.has_role('admin'));
+
+create policy "Admins can assign roles"
+  on public.user_roles for all
+  to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
+
+-- Break records: leads record breaks, supervisors correct and delete them
+drop policy "Stations can read break records" on public.break_records;
+drop policy "Stations can insert break records" on public.break_records;
+drop policy "Stations can update break records" on public.break_records;
+drop policy "Stations can delete break records" on public.break_records;
+
+create policy "Staff can read break records"
+  on public.break_records for select
+  to authenticated
+  using (public.has_role('lead'));
+
+create policy "Leads can record breaks"
+  on public.break_records for insert
+  to authenticated
+  with check (public.has_role('lead') and (adjusted_at is null or public.has_role('supervisor')));
+
+create policy "Leads can end breaks"
+  on public.break_records for update
+  to authenticated
+  using (public.has_role('lead'))
+  with check (public.has_role('lead'));
+
+create policy "Supervisors can delete break records"
+  on public.break_records for delete
+  to authenticated
+  using (public.has_role('supervisor'));
+
+-- Row policies cannot tell an end time from a correction, so the columns only supervisors may
+-- change are checked here. Changes made outside the app (no signed-in user) are not restricted.
+create or replace function public.guard_break_record_corrections()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is not null and not public.has_role('supervisor') and (
+    new.start_time is distinct from old.start_time
+    or new.associate_id is distinct from old.associate_id
+    or new.associate_name is distinct from old.associate_name
+    or new.break_type is distinct from old.break_type
+    or new.adjusted_at is distinct from old.adjusted_at
+    or new.adjusted_by is distinct from old.adjusted_by
+    or new.adjustment_reason is distinct from old.adjustment_reason
+  ) then
+    raise exception 'Only supervisors can correct break times' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger break_records_guard_corrections
+  before update on public.break_records
+  for each row execute function public.guard_break_record_corrections();
+
+-- Roster: everyone signed in can pick associates, only admins change them
+drop policy "Stations can read associates" on public.associates;
+drop policy "Stations can insert associates" on public.associates;
+drop policy "Stations can update associates" on public.associates;
+
+create policy "Staff can read associates"
+  on public.associates for select
+  to authenticated
+  using (public.has_role('lead'));
+
+create policy "Admins can add associates"
+  on public.associates for insert
+  to authenticated
+  with check (public.has_role('admin'));
+
+create policy "Admins can update associates"
+  on public.associates for update
+  to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
+
+-- Audit log: every change is recorded, only supervisors read it back
+drop policy "Stations can read the audit log" on public.break_audit_log;
+drop policy "Stations can add audit entries" on public.break_audit_log;
+
+create policy "Supervisors can read the audit log"
+  on public.break_audit_log for select
+  to authenticated
+  using (public.has_role('supervisor'));
+
+create policy "Staff can add audit entries"
+  on public.break_audit_log for insert
+  to authenticated
+  with check (public.has_role('lead'));
@@ -0,0 +1,34 @@
+-- Leads may only move a break forward: end it once, or archive it once when the shift closes.
+-- Reopening a break, changing a recorded end time or un-archiving one is a supervisor correction.
+create or replace function public.guard_break_record_corrections()
+returns trigger
+language plpgsql
+as $$
+declare
+  ending boolean := old.end_time is null and new.end_time is not null;
+  archiving boolean := old.archived_at is null and new.archived_at is not null;
+begin
+  if auth.uid() is null or public.has_role('supervisor') then
+    return new;
+  end if;
+
+  if new.start_time is distinct from old.start_time
+    or new.associate_id is distinct from old.associate_id
+    or new.associate_name is distinct from old.associate_name
+    or new.break_type is distinct from old.break_type
+    or new.adjusted_at is distinct from old.adjusted_at
+    or new.adjusted_by is distinct from old.adjusted_by
+    or new.adjustment_reason is distinct from old.adjustment_reason
+    or (new.end_time is distinct from old.end_time and not ending)
+    or (new.archived_at is distinct from old.archived_at and not archiving)
+    -- Status follows the end time, or marks a break still running at shift close as unclosed
+    or (new.status is distinct from old.status and not (
+      (ending and new.status in ('completed', 'overtime'))
+      or (archiving and new.end_time is null and new.status = 'unclosed')
+    ))
+  then
+    raise exception 'Only supervisors can correct break times' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
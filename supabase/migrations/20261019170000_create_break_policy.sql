@@ -0,0 +1,30 @@
+-- The site's break policy, shared by every station. A single row; until an admin saves one the
+-- stations use the built-in defaults.
+create table public.break_policy (
+  id boolean primary key default true check (id),
+  policy jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create trigger break_policy_set_updated_at
+  before update on public.break_policy
+  for each row execute function public.set_updated_at();
+
+alter table public.break_policy enable row level security;
+
+create policy "Staff can read the break policy"
+  on public.break_policy for select
+  to authenticated
+  using (public.has_role('lead'));
+
+create policy "Admins can set the break policy"
+  on public.break_policy for insert
+  to authenticated
+  with check (public.has_role('admin'));
+
+create policy "Admins can change the break policy"
+  on public.break_policy for update
+  to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
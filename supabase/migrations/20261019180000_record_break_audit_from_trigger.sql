@@ -0,0 +1,101 @@
+-- The audit log is written by the database, not the stations: every change to a break record adds
+-- an entry with the signed-in user as the actor, so entries can no longer be forged or skipped.
+alter table public.break_audit_log
+  add column actor_id uuid,
+  alter column id set default gen_random_uuid()::text,
+  alter column occurred_at set default now();
+
+drop policy "Staff can add audit entries" on public.break_audit_log;
+
+-- Stations describe each write in an `x-audit-context` header: base64-encoded JSON with the
+-- station's ID and name, when the change was made there, whether a shift close was automatic, and
+-- for changes the row alone cannot explain, the action (import, undo or redo). Every other action
+-- is worked out from the change itself.
+create or replace function public.record_break_audit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+  new_row jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+  context jsonb := '{}'::jsonb;
+  header text;
+  audit_action text;
+  audit_actor text;
+  occurred timestamptz := now();
+begin
+  -- Upserts that rewrite a row unchanged are not changes
+  if tg_op = 'UPDATE' and old_row - 'updated_at' = new_row - 'updated_at' then
+    return null;
+  end if;
+
+  header := nullif(current_setting('request.headers', true), '')::jsonb ->> 'x-audit-context';
+  if header is not null then
+    begin
+      context := convert_from(decode(header, 'base64'), 'UTF8')::jsonb;
+    exception when others then
+      context := '{}'::jsonb;
+    end;
+  end if;
+
+  if context ->> 'action' in ('import', 'undo', 'redo') then
+    audit_action := context ->> 'action';
+  elsif tg_op = 'INSERT' then
+    audit_action := 'start';
+  elsif tg_op = 'DELETE' then
+    audit_action := 'delete';
+  elsif old.archived_at is null and new.archived_at is not null then
+    audit_action := 'close_shift';
+  elsif new.adjusted_at is distinct from old.adjusted_at then
+    audit_action := 'adjust';
+  elsif old.end_time is null and new.end_time is not null then
+    audit_action := 'end';
+  elsif new.reason is distinct from old.reason then
+    audit_action := 'reason';
+  else
+    audit_action := 'adjust';
+  end if;
+
+  if auth.uid() is null then
+    audit_actor := 'Database';
+  else
+    select coalesce(nullif(display_name, ''), (select email from auth.users where id = auth.uid()))
+      into audit_actor
+      from public.user_roles
+      where user_id = auth.uid();
+    audit_actor := coalesce(audit_actor, 'Unknown user');
+  end if;
+  if audit_action = 'close_shift' and context -> 'automatic' = 'true'::jsonb then
+    audit_actor := audit_actor || ' (automatic shift close)';
+  end if;
+
+  -- A change queued while offline is dated when it was made, never later than it reached the server
+  begin
+    occurred := least(coalesce((context ->> 'occurredAt')::timestamptz, now()), now());
+  exception when others then
+    occurred := now();
+  end;
+
+  insert into public.break_audit_log
+    (occurred_at, actor, actor_id, station_id, station_name, action, record_id, associate_name, before, after)
+  values (
+    occurred,
+    audit_actor,
+    auth.uid(),
+    coalesce(context ->> 'stationId', ''),
+    coalesce(context ->> 'stationName', ''),
+    audit_action,
+    coalesce(new.id, old.id),
+    coalesce(new.associate_name, old.associate_name),
+    old_row,
+    new_row
+  );
+  return null;
+end;
+$$;
+
+create trigger break_records_record_audit
+  after insert or update or delete on public.break_records
+  for each row execute function public.record_break_audit();
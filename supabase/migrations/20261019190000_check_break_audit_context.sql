@@ -0,0 +1,112 @@
+-- Stations could backdate audit entries without limit and relabel any change as an import, undo or
+-- redo. The time a station reports is now held to the last 24 hours, and its label is only used
+-- when the change fits it. created_at still records when each entry reached the server.
+create or replace function public.record_break_audit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+  new_row jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+  context jsonb := '{}'::jsonb;
+  header text;
+  audit_action text;
+  audit_actor text;
+  claimed text;
+  restored jsonb;
+  occurred timestamptz := now();
+begin
+  -- Upserts that rewrite a row unchanged are not changes
+  if tg_op = 'UPDATE' and old_row - 'updated_at' = new_row - 'updated_at' then
+    return null;
+  end if;
+
+  header := nullif(current_setting('request.headers', true), '')::jsonb ->> 'x-audit-context';
+  if header is not null then
+    begin
+      context := convert_from(decode(header, 'base64'), 'UTF8')::jsonb;
+    exception when others then
+      context := '{}'::jsonb;
+    end;
+  end if;
+
+  -- A station's label is only taken when the change is one that action could have made
+  claimed := context ->> 'action';
+  restored := new_row - 'created_at' - 'updated_at';
+  if claimed = 'import' and (
+    tg_op = 'INSERT'
+    or (tg_op = 'UPDATE'
+      and old_row - 'end_time' - 'status' - 'reason' - 'updated_at'
+        = new_row - 'end_time' - 'status' - 'reason' - 'updated_at')
+  ) then
+    audit_action := claimed;
+  -- Undo puts back a state the log recorded before a change, redo one it recorded after
+  elsif claimed in ('undo', 'redo') and exists (
+    select 1
+    from public.break_audit_log logged
+    where logged.record_id = coalesce(new.id, old.id)
+      and (
+        (restored is null and (case when claimed = 'undo' then logged.before else logged.after end) is null)
+        or (case when claimed = 'undo' then logged.before else logged.after end) - 'created_at' - 'updated_at' = restored
+      )
+  ) then
+    audit_action := claimed;
+  elsif tg_op = 'INSERT' then
+    audit_action := 'start';
+  elsif tg_op = 'DELETE' then
+    audit_action := 'delete';
+  elsif old.archived_at is null and new.archived_at is not null then
+    audit_action := 'close_shift';
+  elsif new.adjusted_at is distinct from old.adjusted_at then
+    audit_action := 'adjust';
+  elsif old.end_time is null and new.end_time is not null then
+    audit_action := 'end';
+  elsif new.reason is distinct from old.reason then
+    audit_action := 'reason';
+  else
+    audit_action := 'adjust';
+  end if;
+
+  if auth.uid() is null then
+    audit_actor := 'Database';
+  else
+    select coalesce(nullif(display_name, ''), (select email from auth.users where id = auth.uid()))
+      into audit_actor
+      from public.user_roles
+      where user_id = auth.uid();
+    audit_actor := coalesce(audit_actor, 'Unknown user');
+  end if;
+  if audit_action = 'close_shift' and context -> 'automatic' = 'true'::jsonb then
+    audit_actor := audit_actor || ' (automatic shift close)';
+  end if;
+
+  -- A change queued while offline is dated when it was made: never later than it reached the
+  -- server, and no more than a day earlier
+  begin
+    occurred := greatest(
+      now() - interval '24 hours',
+      least(coalesce((context ->> 'occurredAt')::timestamptz, now()), now())
+    );
+  exception when others then
+    occurred := now();
+  end;
+
+  insert into public.break_audit_log
+    (occurred_at, actor, actor_id, station_id, station_name, action, record_id, associate_name, before, after)
+  values (
+    occurred,
+    audit_actor,
+    auth.uid(),
+    coalesce(context ->> 'stationId', ''),
+    coalesce(context ->> 'stationName', ''),
+    audit_action,
+    coalesce(new.id, old.id),
+    coalesce(new.associate_name, old.associate_name),
+    old_row,
+    new_row
+  );
+  return null;
+end;
+$$;